@@ -0,0 +1,67 @@
+import * as fs from "fs";
+import * as path from "path";
+import chalk from "chalk";
+import ora, { Ora } from "ora";
+import { validateWorkflowDir } from "../services/packager";
+import { compileWorkflow, typeCheckWorkflow, formatDiagnostic, CompiledWorkflow } from "../services/builder";
+
+interface BuildOptions {
+  out?: string;
+}
+
+// Type-check and compile a workflow directory, reporting progress on the spinner
+// and type errors through log. Shared with deploy, which bundles the result.
+export async function buildWorkflow(
+  workflowDir: string,
+  spinner: Ora,
+  log: (message: string) => void = console.log
+): Promise<CompiledWorkflow> {
+  spinner.start("Type-checking workflow...");
+  const diagnostics = typeCheckWorkflow(workflowDir);
+
+  if (diagnostics.length > 0) {
+    spinner.fail(`Type check failed with ${diagnostics.length} error(s)`);
+    log("");
+    for (const diagnostic of diagnostics) {
+      log(chalk.red(`  ${formatDiagnostic(diagnostic)}`));
+    }
+    log("");
+    throw new Error("Fix the type errors above and try again");
+  }
+  spinner.succeed("Type check passed");
+
+  spinner.start("Compiling workflow bundle...");
+  const compiled = await compileWorkflow(workflowDir);
+  spinner.succeed(`Workflow compiled (${compiled.build.size} bytes)`);
+
+  return compiled;
+}
+
+export async function build(workflowPath: string, options: BuildOptions): Promise<void> {
+  const spinner = ora();
+  const absolutePath = path.resolve(workflowPath);
+
+  try {
+    validateWorkflowDir(absolutePath);
+
+    const compiled = await buildWorkflow(absolutePath, spinner);
+
+    const outputPath = path.resolve(options.out || path.join(absolutePath, "dist", "workflow-bundle.js"));
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, compiled.code);
+
+    console.log("");
+    console.log(chalk.green("Workflow built successfully!"));
+    console.log("");
+    console.log(chalk.bold("Details:"));
+    console.log(`  Bundler:   ${compiled.build.bundler}`);
+    console.log(`  Size:      ${compiled.build.size} bytes`);
+    console.log(`  Checksum:  ${chalk.gray(compiled.build.checksum.substring(0, 16))}...`);
+    console.log(`  Output:    ${chalk.gray(outputPath)}`);
+    console.log("");
+  } catch (error) {
+    spinner.fail("Build failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
@@ -3,9 +3,13 @@ import * as readline from "readline";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { SigningConfig, StorageConfig, StorageDriverName } from "../types";
 
 const CONFIG_DIR = path.join(os.homedir(), ".workflow-cli");
 const CONFIG_FILE = path.join(CONFIG_DIR, "config.json");
+const DEFAULT_STORAGE_PATH = path.join(CONFIG_DIR, "storage");
+const DEFAULT_TRUSTED_KEYS_PATH = path.join(CONFIG_DIR, "trusted-keys.json");
+const STORAGE_DRIVERS: StorageDriverName[] = ["minio", "local"];
 
 interface CliConfig {
   token?: string;
@@ -16,6 +20,10 @@ interface CliConfig {
     name: string;
   };
   savedAt?: string;
+  storage?: {
+    driver: StorageDriverName;
+    path?: string;
+  };
   minio?: {
     endpoint: string;
     port: number;
@@ -29,6 +37,17 @@ interface CliConfig {
     namespace: string;
   };
   apiUrl?: string;
+  signing?: Partial<SigningConfig>;
+  profiles?: Record<string, ProfileConfig>;
+}
+
+// A named environment, values missing here fall back to the top-level config
+export interface ProfileConfig {
+  storage?: Partial<NonNullable<CliConfig["storage"]>>;
+  minio?: Partial<NonNullable<CliConfig["minio"]>>;
+  apiUrl?: string;
+  // API token for the environment's apiUrl, used by promote
+  token?: string;
 }
 
 function ensureConfigDir(): void {
@@ -72,6 +91,40 @@ export function getMinioConfig(): CliConfig["minio"] | null {
   return config.minio || null;
 }
 
+export function getStorageConfig(): StorageConfig {
+  const config = loadConfig();
+  const driver = (process.env.WORKFLOW_CLI_STORAGE_DRIVER || config.storage?.driver || "minio") as StorageDriverName;
+
+  if (!STORAGE_DRIVERS.includes(driver)) {
+    throw new Error(`Unknown storage driver "${driver}". Must be one of: ${STORAGE_DRIVERS.join(", ")}`);
+  }
+
+  return {
+    driver,
+    path: process.env.WORKFLOW_CLI_STORAGE_PATH || config.storage?.path || DEFAULT_STORAGE_PATH,
+  };
+}
+
+export function getSigningConfig(): SigningConfig {
+  const signing = loadConfig().signing || {};
+  return {
+    keyId: process.env.WORKFLOW_CLI_SIGNING_KEY_ID || signing.keyId,
+    privateKeyPath: process.env.WORKFLOW_CLI_SIGNING_KEY_PATH || signing.privateKeyPath,
+    trustedKeysPath: signing.trustedKeysPath || DEFAULT_TRUSTED_KEYS_PATH,
+    requireSignatures: process.env.WORKFLOW_CLI_REQUIRE_SIGNATURES === "true" || signing.requireSignatures || false,
+  };
+}
+
+export function updateSigningConfig(values: Partial<SigningConfig>): void {
+  const config = loadConfig();
+  config.signing = { ...config.signing, ...values };
+  saveConfig(config);
+}
+
+export function getProfile(name: string): ProfileConfig | null {
+  return loadConfig().profiles?.[name] || null;
+}
+
 export function getApiUrl(): string {
   return process.env.WORKFLOW_CLI_API_URL || loadConfig().apiUrl || "http://localhost:3001";
 }
@@ -96,20 +149,45 @@ export async function configSetup(): Promise<void> {
   console.log(chalk.bold("\nWorkflow CLI Configuration\n"));
 
   const existingConfig = loadConfig();
+  const existingStorage = existingConfig.storage;
   const existingMinio = existingConfig.minio;
   const existingTemporal = existingConfig.temporal;
 
   const rl = createReadline();
 
   try {
-    console.log(chalk.gray("Configure MinIO connection settings:\n"));
+    console.log(chalk.gray("Configure storage backend:\n"));
+
+    const driver = await prompt(rl, "Storage Driver (minio/local)", existingStorage?.driver || "minio");
+    if (!STORAGE_DRIVERS.includes(driver as StorageDriverName)) {
+      console.log(chalk.red(`\nUnknown storage driver: ${driver}`));
+      return;
+    }
+
+    let storagePath = existingStorage?.path;
+    let minio = existingMinio;
+
+    if (driver === "local") {
+      storagePath = await prompt(rl, "Storage Directory", existingStorage?.path || DEFAULT_STORAGE_PATH);
+    } else {
+      console.log(chalk.gray("\nConfigure MinIO connection settings:\n"));
 
-    const endpoint = await prompt(rl, "MinIO Endpoint", existingMinio?.endpoint || "localhost");
-    const port = await prompt(rl, "MinIO Port", String(existingMinio?.port || 9000));
-    const useSSL = await prompt(rl, "Use SSL (true/false)", String(existingMinio?.useSSL || false));
-    const accessKey = await prompt(rl, "MinIO Access Key", existingMinio?.accessKey || "minioadmin");
-    const secretKey = await prompt(rl, "MinIO Secret Key", existingMinio?.secretKey || "minioadmin");
-    const bucket = await prompt(rl, "MinIO Bucket", existingMinio?.bucket || "temporal-workflows");
+      const endpoint = await prompt(rl, "MinIO Endpoint", existingMinio?.endpoint || "localhost");
+      const port = await prompt(rl, "MinIO Port", String(existingMinio?.port || 9000));
+      const useSSL = await prompt(rl, "Use SSL (true/false)", String(existingMinio?.useSSL || false));
+      const accessKey = await prompt(rl, "MinIO Access Key", existingMinio?.accessKey || "minioadmin");
+      const secretKey = await prompt(rl, "MinIO Secret Key", existingMinio?.secretKey || "minioadmin");
+      const bucket = await prompt(rl, "MinIO Bucket", existingMinio?.bucket || "temporal-workflows");
+
+      minio = {
+        endpoint,
+        port: parseInt(port, 10),
+        useSSL: useSSL === "true",
+        accessKey,
+        secretKey,
+        bucket,
+      };
+    }
 
     console.log(chalk.gray("\nConfigure Temporal server settings:\n"));
 
@@ -122,14 +200,11 @@ export async function configSetup(): Promise<void> {
 
     const newConfig: CliConfig = {
       ...existingConfig,
-      minio: {
-        endpoint,
-        port: parseInt(port, 10),
-        useSSL: useSSL === "true",
-        accessKey,
-        secretKey,
-        bucket,
+      storage: {
+        driver: driver as StorageDriverName,
+        path: storagePath,
       },
+      minio,
       temporal: {
         address: temporalAddress,
         namespace: temporalNamespace,
@@ -151,6 +226,15 @@ export async function configShow(): Promise<void> {
 
   console.log(chalk.bold("\nCurrent Configuration\n"));
 
+  const storage = config.storage;
+  console.log(chalk.cyan("Storage:"));
+  console.log(`  Driver:     ${storage?.driver || "minio (default)"}`);
+  if (storage?.driver === "local") {
+    console.log(`  Directory:  ${storage.path || `${DEFAULT_STORAGE_PATH} (default)`}`);
+  }
+
+  console.log("");
+
   if (config.minio) {
     console.log(chalk.cyan("MinIO:"));
     console.log(`  Endpoint:   ${config.minio.endpoint}`);
@@ -188,6 +272,28 @@ export async function configShow(): Promise<void> {
 
   console.log("");
 
+  if (config.profiles && Object.keys(config.profiles).length > 0) {
+    console.log(chalk.cyan("Profiles:"));
+    for (const [name, profile] of Object.entries(config.profiles)) {
+      const driver = profile.storage?.driver || config.storage?.driver || "minio";
+      const location = driver === "local" ? profile.storage?.path || "" : profile.minio?.bucket || config.minio?.bucket || "";
+      console.log(`  ${name.padEnd(12)}${driver} ${location}${profile.apiUrl ? ` (${profile.apiUrl})` : ""}`);
+    }
+    console.log("");
+  }
+
+  console.log(chalk.cyan("Signing:"));
+  if (config.signing?.keyId) {
+    console.log(`  Key ID:       ${config.signing.keyId}`);
+    console.log(`  Private Key:  ${config.signing.privateKeyPath}`);
+  } else {
+    console.log(`  Key ID:       not configured (deploys are unsigned)`);
+  }
+  console.log(`  Trusted Keys: ${config.signing?.trustedKeysPath || `${DEFAULT_TRUSTED_KEYS_PATH} (default)`}`);
+  console.log(`  Require:      ${config.signing?.requireSignatures ? "yes" : "no"}`);
+
+  console.log("");
+
   if (config.user) {
     console.log(chalk.cyan("User:"));
     console.log(`  Email: ${config.user.email}`);
@@ -210,38 +316,74 @@ export async function configShow(): Promise<void> {
 export async function configSet(key: string, value: string): Promise<void> {
   const config = loadConfig();
 
-  const keyParts = key.split(".");
-
-  if (keyParts[0] === "minio") {
-    if (!config.minio) {
-      config.minio = {
-        endpoint: "localhost",
-        port: 9000,
-        useSSL: false,
-        accessKey: "",
-        secretKey: "",
-        bucket: "temporal-workflows",
-      };
+  let keyParts = key.split(".");
+
+  // Keys under profiles.<name>. configure a named environment
+  let target: ProfileConfig = config;
+  if (keyParts[0] === "profiles" && keyParts.length > 2) {
+    config.profiles = config.profiles || {};
+    target = config.profiles[keyParts[1]] = config.profiles[keyParts[1]] || {};
+    keyParts = keyParts.slice(2);
+
+    if (!["storage", "minio", "apiUrl", "token"].includes(keyParts[0])) {
+      console.log(chalk.red(`Profiles only support storage.*, minio.*, apiUrl and token keys`));
+      return;
+    }
+  }
+
+  if (keyParts[0] === "storage") {
+    if (!target.storage) {
+      target.storage = target === config ? { driver: "minio" } : {};
+    }
+
+    switch (keyParts[1]) {
+      case "driver":
+        if (!STORAGE_DRIVERS.includes(value as StorageDriverName)) {
+          console.log(chalk.red(`Invalid storage driver: ${value}. Must be one of: ${STORAGE_DRIVERS.join(", ")}`));
+          return;
+        }
+        target.storage.driver = value as StorageDriverName;
+        break;
+      case "path":
+        target.storage.path = path.resolve(value);
+        break;
+      default:
+        console.log(chalk.red(`Unknown storage config key: ${keyParts[1]}`));
+        return;
+    }
+  } else if (keyParts[0] === "minio") {
+    if (!target.minio) {
+      target.minio =
+        target === config
+          ? {
+              endpoint: "localhost",
+              port: 9000,
+              useSSL: false,
+              accessKey: "",
+              secretKey: "",
+              bucket: "temporal-workflows",
+            }
+          : {};
     }
 
     switch (keyParts[1]) {
       case "endpoint":
-        config.minio.endpoint = value;
+        target.minio.endpoint = value;
         break;
       case "port":
-        config.minio.port = parseInt(value, 10);
+        target.minio.port = parseInt(value, 10);
         break;
       case "useSSL":
-        config.minio.useSSL = value === "true";
+        target.minio.useSSL = value === "true";
         break;
       case "accessKey":
-        config.minio.accessKey = value;
+        target.minio.accessKey = value;
         break;
       case "secretKey":
-        config.minio.secretKey = value;
+        target.minio.secretKey = value;
         break;
       case "bucket":
-        config.minio.bucket = value;
+        target.minio.bucket = value;
         break;
       default:
         console.log(chalk.red(`Unknown minio config key: ${keyParts[1]}`));
@@ -266,14 +408,41 @@ export async function configSet(key: string, value: string): Promise<void> {
         console.log(chalk.red(`Unknown temporal config key: ${keyParts[1]}`));
         return;
     }
-  } else if (key === "apiUrl") {
-    config.apiUrl = value;
+  } else if (keyParts[0] === "signing") {
+    if (!config.signing) {
+      config.signing = {};
+    }
+
+    switch (keyParts[1]) {
+      case "keyId":
+        config.signing.keyId = value;
+        break;
+      case "privateKeyPath":
+        config.signing.privateKeyPath = path.resolve(value);
+        break;
+      case "trustedKeysPath":
+        config.signing.trustedKeysPath = path.resolve(value);
+        break;
+      case "requireSignatures":
+        config.signing.requireSignatures = value === "true";
+        break;
+      default:
+        console.log(chalk.red(`Unknown signing config key: ${keyParts[1]}`));
+        return;
+    }
+  } else if (keyParts[0] === "apiUrl") {
+    target.apiUrl = value;
+  } else if (keyParts[0] === "token" && target !== config) {
+    target.token = value;
   } else {
     console.log(chalk.red(`Unknown config key: ${key}`));
     console.log(chalk.gray("Available keys:"));
+    console.log(chalk.gray("  storage.driver, storage.path"));
     console.log(chalk.gray("  minio.endpoint, minio.port, minio.useSSL, minio.accessKey, minio.secretKey, minio.bucket"));
     console.log(chalk.gray("  temporal.address, temporal.namespace"));
+    console.log(chalk.gray("  signing.keyId, signing.privateKeyPath, signing.trustedKeysPath, signing.requireSignatures"));
     console.log(chalk.gray("  apiUrl"));
+    console.log(chalk.gray("  profiles.<name>.storage.*, profiles.<name>.minio.*, profiles.<name>.apiUrl, profiles.<name>.token"));
     return;
   }
 
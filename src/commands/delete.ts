@@ -1,63 +1,99 @@
 import chalk from "chalk";
 import ora from "ora";
-import { deleteVersion, listVersions, getLatestVersion, setLatestVersion } from "../services/minio";
+import {
+  deleteVersion,
+  deleteLatestVersion,
+  deleteChannels,
+  deleteTrafficSplit,
+  getTrafficSplit,
+  listChannels,
+  listVersions,
+  getLatestVersion,
+  setLatestVersion,
+  useTenant,
+} from "../services/minio";
+import { withWorkflowLock } from "../services/lock";
 
 interface DeleteOptions {
   version?: string;
   all?: boolean;
+  tenant?: string;
 }
 
 export async function deleteWorkflow(workflowName: string, options: DeleteOptions): Promise<void> {
   const spinner = ora();
 
   try {
-    spinner.start("Fetching workflow info...");
-    const versions = await listVersions(workflowName);
-    const currentLatest = await getLatestVersion(workflowName);
-    spinner.stop();
+    useTenant(options.tenant);
 
-    if (versions.length === 0) {
-      console.log(chalk.yellow(`No versions found for workflow: ${workflowName}`));
-      return;
-    }
+    await withWorkflowLock(workflowName, "delete", async () => {
+      spinner.start("Fetching workflow info...");
+      const versions = await listVersions(workflowName);
+      const currentLatest = await getLatestVersion(workflowName);
+      spinner.stop();
 
-    if (options.all) {
-      // Delete all versions
-      spinner.start(`Deleting all versions of ${workflowName}...`);
-
-      for (const version of versions) {
-        await deleteVersion(workflowName, version);
+      if (versions.length === 0) {
+        console.log(chalk.yellow(`No versions found for workflow: ${workflowName}`));
+        return;
       }
 
-      // Also delete the latest pointer
-      // Note: MinIO client doesn't have a direct delete for non-versioned objects in some cases
-      // The latest pointer will become orphaned but that's okay
+      if (options.all) {
+        // Delete all versions
+        spinner.start(`Deleting all versions of ${workflowName}...`);
 
-      spinner.succeed(`Deleted all ${versions.length} versions`);
-      console.log(chalk.green(`\nWorkflow ${workflowName} completely removed.`));
-    } else if (options.version) {
-      // Delete specific version
-      if (!versions.includes(options.version)) {
-        console.log(chalk.red(`Version ${options.version} not found.`));
-        console.log(`Available versions: ${versions.join(", ")}`);
-        return;
-      }
+        for (const version of versions) {
+          await deleteVersion(workflowName, version);
+        }
 
-      spinner.start(`Deleting version ${options.version}...`);
-      await deleteVersion(workflowName, options.version);
-      spinner.succeed(`Deleted version ${options.version}`);
+        // Also delete the latest and channel pointers and the traffic split so no ghost workflow is left behind
+        await deleteLatestVersion(workflowName);
+        await deleteChannels(workflowName);
+        await deleteTrafficSplit(workflowName);
 
-      // Update latest if we deleted the current latest
-      if (options.version === currentLatest && versions.length > 1) {
-        const remainingVersions = versions.filter((v) => v !== options.version);
-        const newLatest = remainingVersions[0];
-        await setLatestVersion(workflowName, newLatest);
-        console.log(chalk.yellow(`\nLatest version updated to: ${newLatest}`));
+        spinner.succeed(`Deleted all ${versions.length} versions`);
+        console.log(chalk.green(`\nWorkflow ${workflowName} completely removed.`));
+      } else if (options.version) {
+        // Delete specific version
+        if (!versions.includes(options.version)) {
+          console.log(chalk.red(`Version ${options.version} not found.`));
+          console.log(`Available versions: ${versions.join(", ")}`);
+          return;
+        }
+
+        // run would still route executions to it
+        const split = await getTrafficSplit(workflowName);
+        if (split && options.version in split.weights) {
+          console.log(chalk.red(`Version ${options.version} is part of the traffic split.`));
+          console.log(`Change it with: workflow-cli split ${workflowName} --version <version>=<weight> ... or --clear`);
+          return;
+        }
+
+        // Channels pointing at it would be left dangling
+        const channels = Object.entries(await listChannels(workflowName))
+          .filter(([, version]) => version === options.version)
+          .map(([channel]) => channel);
+        if (channels.length > 0) {
+          console.log(chalk.red(`Version ${options.version} is the current version of channel(s) ${channels.join(", ")}.`));
+          console.log(`Move them to another version first with: workflow-cli tag ${workflowName} <version> <channel>`);
+          return;
+        }
+
+        spinner.start(`Deleting version ${options.version}...`);
+        await deleteVersion(workflowName, options.version);
+        spinner.succeed(`Deleted version ${options.version}`);
+
+        // Update latest if we deleted the current latest
+        if (options.version === currentLatest && versions.length > 1) {
+          const remainingVersions = versions.filter((v) => v !== options.version);
+          const newLatest = remainingVersions[0];
+          await setLatestVersion(workflowName, newLatest);
+          console.log(chalk.yellow(`\nLatest version updated to: ${newLatest}`));
+        }
+      } else {
+        console.log(chalk.yellow("Please specify --version or --all"));
+        console.log(`Available versions: ${versions.join(", ")}`);
       }
-    } else {
-      console.log(chalk.yellow("Please specify --version or --all"));
-      console.log(`Available versions: ${versions.join(", ")}`);
-    }
+    });
   } catch (error) {
     spinner.fail("Delete failed");
     console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
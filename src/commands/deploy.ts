@@ -1,124 +1,267 @@
 import * as path from "path";
 import * as os from "os";
 import chalk from "chalk";
-import ora from "ora";
+import ora, { Ora } from "ora";
 import {
   loadWorkflowConfig,
   validateWorkflowDir,
   createBundle,
+  listBundleFiles,
+  checkWorkflowReferences,
   calculateChecksum,
+  calculateSourceChecksum,
   generateVersion,
   createMetadata,
   cleanup,
 } from "../services/packager";
-import { uploadWorkflow, getLatestVersion } from "../services/minio";
-import { getToken, isMasterAdmin, getCurrentTenant } from "../services/auth";
-import { DeployOptions } from "../types";
+import {
+  stageWorkflow,
+  commitStagedWorkflow,
+  acceptCommittedWorkflow,
+  revertCommittedWorkflow,
+  getLatestVersion,
+  getMetadata,
+  listVersions,
+  getChannelVersion,
+  setChannelVersion,
+  listChannels,
+  getTrafficSplit,
+  validateChannelName,
+  useTenant,
+  DEFAULT_CHANNEL,
+  StagedWorkflow,
+  CommittedWorkflow,
+} from "../services/minio";
+import { getStorage } from "../services/storage";
+import { pruneWorkflow } from "../services/retention";
+import { signBundle } from "../services/signing";
+import { scanForSecrets, SECRETS_ALLOW_FILE } from "../services/secrets";
+import { CompiledWorkflow } from "../services/builder";
+import { bumpVersion, isSemver, BUMP_LEVELS } from "../services/versioning";
+import { collectProvenance } from "../services/provenance";
+import { withWorkflowLock } from "../services/lock";
+import { resolveWorkspace } from "../services/workspace";
+import { buildWorkflow } from "./build";
+import { lintWorkflowStep } from "./lint";
+import { registerDeployment } from "../services/api";
+import { getToken, isMasterAdmin, getCurrentTenant, checkTenantOverride } from "../services/auth";
+import { BundleSignature, DeployOptions, WorkflowConfig, WorkflowProvenance } from "../types";
 import { createLogger } from "../lib/logger";
-import { getApiUrl } from "../config";
 
 const logger = createLogger("deploy");
 
-// Register the deployment with the API
-async function registerDeployment(
-  token: string,
-  data: {
-    name: string;
-    namespace: string;
-    taskQueue: string;
-    version: string;
-    trigger: { type: string; config?: Record<string, unknown> };
-    checksum: string;
-    minioPath: string;
-  },
-  tenantOverride?: string
-): Promise<{ success: boolean; message: string }> {
-  try {
-    // Build URL with tenant query param for master admin
-    let url = `${getApiUrl()}/workflows/register`;
-    if (tenantOverride) {
-      url += `?tenant=${encodeURIComponent(tenantOverride)}`;
-    }
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify(data),
-    });
+// Workflows deployed at the same time by `deploy --all`, unless --concurrency is given
+const DEFAULT_CONCURRENCY = 4;
+
+// Outcome of deploying one workflow folder
+type DeployResult =
+  | { status: "listed"; name: string }
+  | { status: "exists"; name: string; version: string }
+  | { status: "unchanged"; name: string; version: string; checksum: string }
+  | {
+      status: "deployed";
+      name: string;
+      version: string;
+      channel: string;
+      config: WorkflowConfig;
+      checksum: string;
+      compiled?: CompiledWorkflow;
+      signature: BundleSignature | null;
+      bundleKey: string;
+      provenance: WorkflowProvenance;
+    };
 
-    const result = (await response.json()) as { success: boolean; message: string };
-    return result;
+// Undo a promoted version after a failed deploy: a version overwritten with --force
+// gets its previous objects back, a new one is removed
+async function revertVersion(committed: CommittedWorkflow): Promise<void> {
+  try {
+    await revertCommittedWorkflow(committed);
   } catch (error) {
-    logger.error(error, "Failed to register deployment with API");
-    return { success: false, message: error instanceof Error ? error.message : "API error" };
+    logger.error(error, "Failed to clean up version after failed deploy");
   }
 }
 
-export async function deploy(workflowPath: string, options: DeployOptions): Promise<void> {
-  const spinner = ora();
-  const absolutePath = path.resolve(workflowPath);
+// Validate, build, bundle and upload one workflow folder. Throws when any step fails,
+// the details (secrets, lint issues, type errors) are written through log first.
+async function deployWorkflow(
+  absolutePath: string,
+  options: DeployOptions,
+  spinner: Ora,
+  log: (message: string) => void = console.log
+): Promise<DeployResult> {
+  // Validate workflow directory
+  spinner.start("Validating workflow directory...");
+  validateWorkflowDir(absolutePath);
+  spinner.succeed("Workflow directory validated");
 
-  // Validate tenant for master admin
-  const isMaster = isMasterAdmin();
-  const tenantOverride = options.tenant;
+  // Load and validate config
+  spinner.start("Loading workflow configuration...");
+  const config = await loadWorkflowConfig(absolutePath);
+  spinner.succeed(`Loaded config for workflow: ${chalk.cyan(config.name)}`);
 
-  if (isMaster && !tenantOverride) {
-    console.error(chalk.red("\nError: Master admin must specify --tenant flag"));
-    console.error(chalk.gray("Usage: workflow-cli deploy <path> --tenant <tenant_id>\n"));
-    process.exit(1);
+  // Preview the bundle contents without deploying
+  if (options.listFiles) {
+    const files = listBundleFiles(absolutePath, config.include);
+    log("");
+    log(chalk.bold(`Files to bundle (${files.length}):`));
+    for (const file of files) {
+      log(`  ${file}`);
+    }
+    log("");
+    return { status: "listed", name: config.name };
   }
 
-  if (!isMaster && tenantOverride) {
-    console.error(chalk.red("\nError: Only master admin can use --tenant flag"));
-    process.exit(1);
+  // Record where this version comes from, and refuse uncommitted changes when asked to
+  const provenance = collectProvenance(absolutePath, options.message);
+  if (options.requireClean) {
+    if (!provenance.git) {
+      throw new Error(`--require-clean needs a git repository, ${absolutePath} is not in one`);
+    }
+    if (provenance.git.dirty) {
+      throw new Error("Working tree has uncommitted changes. Commit or stash them, or deploy without --require-clean.");
+    }
   }
 
-  try {
-    // Validate workflow directory
-    spinner.start("Validating workflow directory...");
-    validateWorkflowDir(absolutePath);
-    spinner.succeed("Workflow directory validated");
-
-    // Load and validate config
-    spinner.start("Loading workflow configuration...");
-    const config = await loadWorkflowConfig(absolutePath);
-    spinner.succeed(`Loaded config for workflow: ${chalk.cyan(config.name)}`);
-
-    // Check if version already exists
-    const version = options.version || generateVersion();
+  // The config must point at code that actually exists
+  const problems = checkWorkflowReferences(absolutePath, config.name);
+  if (problems.length > 0) {
+    throw new Error(`Workflow code does not match config.ts:\n  - ${problems.join("\n  - ")}`);
+  }
+
+  // Nothing that looks like a credential may leave the machine
+  spinner.start("Scanning for secrets...");
+  const files = listBundleFiles(absolutePath, config.include);
+  const findings = scanForSecrets(absolutePath, files);
+
+  if (findings.length > 0) {
+    spinner.fail(`Found ${findings.length} potential secret(s)`);
+    log("");
+    for (const finding of findings) {
+      const location = finding.line > 0 ? `${finding.file}:${finding.line}` : finding.file;
+      log(`  ${chalk.red(location)}  ${finding.rule}  ${chalk.gray(finding.excerpt)}  ${chalk.gray(finding.fingerprint)}`);
+    }
+    log("");
+    throw new Error(`Remove them, or accept findings by adding the file, file:line or fingerprint to ${SECRETS_ALLOW_FILE}`);
+  }
+  spinner.succeed("No secrets found");
+
+  if (options.channel && options.channel !== DEFAULT_CHANNEL) {
+    validateChannelName(options.channel);
+  }
+
+  // Work out the version to deploy
+  if (options.bump && !BUMP_LEVELS.includes(options.bump)) {
+    throw new Error(`Invalid --bump "${options.bump}", expected one of: ${BUMP_LEVELS.join(", ")}`);
+  }
+  if (options.bump && options.version) {
+    throw new Error("Use either --version or --bump, not both");
+  }
+
+  // Hold the workflow lock from reading the current pointers until the new one is written
+  return withWorkflowLock(config.name, "deploy", async (lock): Promise<DeployResult> => {
+    const channel = options.channel || DEFAULT_CHANNEL;
     const latestVersion = await getLatestVersion(config.name);
+    const channelVersion = channel === DEFAULT_CHANNEL ? latestVersion : await getChannelVersion(config.name, channel);
+    const version = options.bump
+      ? bumpVersion(await listVersions(config.name), options.bump)
+      : options.version || generateVersion();
+
+    if (config.requireSemver && !isSemver(version)) {
+      throw new Error(
+        `${config.name} requires semantic versions, got "${version}". Use --bump or --version <major.minor.patch>.`
+      );
+    }
 
-    if (latestVersion === version && !options.force) {
-      console.log(chalk.yellow(`\nVersion ${version} already exists. Use --force to overwrite.`));
-      return;
+    // Any existing version may be pinned by a channel or the traffic split, never overwrite one silently
+    if (await getMetadata(config.name, version)) {
+      if (!options.force) {
+        return { status: "exists", name: config.name, version };
+      }
+
+      const split = await getTrafficSplit(config.name);
+      const pinnedBy = [
+        ...(latestVersion === version ? [DEFAULT_CHANNEL] : []),
+        ...Object.entries(await listChannels(config.name))
+          .filter(([, pinned]) => pinned === version)
+          .map(([name]) => name),
+        ...(split && version in split.weights ? ["the traffic split"] : []),
+      ];
+      if (pinnedBy.length > 0) {
+        spinner.warn(`Overwriting ${version}, which is used by ${pinnedBy.join(", ")}`);
+      }
+    }
+
+    // Compare sources rather than bundles, the compiled code embeds paths of the checkout.
+    // A version built differently (with or without --skip-build) counts as changed.
+    const sourceChecksum = calculateSourceChecksum(absolutePath, files);
+    const channelMetadata = channelVersion ? await getMetadata(config.name, channelVersion) : null;
+
+    if (
+      channelVersion &&
+      channelMetadata?.sourceChecksum === sourceChecksum &&
+      Boolean(channelMetadata.build) === !options.skipBuild &&
+      !options.force
+    ) {
+      return { status: "unchanged", name: config.name, version: channelVersion, checksum: channelMetadata.checksum };
+    }
+
+    // Refuse workflow code that would break on replay
+    if (!options.skipLint) {
+      await lintWorkflowStep(absolutePath, spinner, log);
+    }
+
+    // Type-check and compile, so broken code never reaches a worker
+    let compiled: CompiledWorkflow | undefined;
+    if (!options.skipBuild) {
+      compiled = await buildWorkflow(absolutePath, spinner, log);
     }
 
     // Create bundle
     spinner.start("Creating workflow bundle...");
     const tempBundlePath = path.join(os.tmpdir(), `${config.name}-${version}.zip`);
-    await createBundle(absolutePath, tempBundlePath);
+    await createBundle(absolutePath, tempBundlePath, {
+      include: config.include,
+      artifacts: compiled && { [compiled.build.artifact]: compiled.code },
+    });
     spinner.succeed("Bundle created");
 
     // Calculate checksum
     const checksum = calculateChecksum(tempBundlePath);
 
+    // Versions deployed before source checksums were recorded are compared by bundle
+    if (channelVersion && !channelMetadata?.sourceChecksum && channelMetadata?.checksum === checksum && !options.force) {
+      cleanup(tempBundlePath);
+      return { status: "unchanged", name: config.name, version: channelVersion, checksum };
+    }
+
     // Create metadata
-    const metadata = createMetadata(config, version, checksum);
+    const metadata = createMetadata(config, version, checksum, compiled?.build, provenance, sourceChecksum);
+
+    // Sign the bundle digest with the local key, if one is configured
+    const signature = signBundle(metadata);
+
+    // Upload to the staging area and verify the objects against the checksum
+    spinner.start(`Uploading to ${getStorage().location}...`);
+    let staged: StagedWorkflow;
+    try {
+      staged = await stageWorkflow(config.name, version, tempBundlePath, metadata, signature);
+    } finally {
+      cleanup(tempBundlePath);
+    }
+    spinner.succeed("Bundle uploaded and verified");
 
-    // Upload to MinIO
-    spinner.start("Uploading to MinIO...");
-    const bundleKey = await uploadWorkflow(config.name, version, tempBundlePath, metadata);
-    spinner.succeed("Uploaded to MinIO");
+    // Promote the staged objects to the version folder, a failed copy restores what was there
+    spinner.start(`Promoting version ${version}...`);
+    const committed = await commitStagedWorkflow(staged);
+    const { bundleKey } = committed;
+    spinner.succeed(`Version ${version} promoted`);
 
     // Register deployment with API
     spinner.start("Registering deployment...");
     const token = getToken();
-    
+
     if (token) {
-      const minioPath = `${config.name}/${version}/bundle.zip`;
+      const minioPath = bundleKey;
       const registerResult = await registerDeployment(
         token,
         {
@@ -130,45 +273,209 @@ export async function deploy(workflowPath: string, options: DeployOptions): Prom
           checksum,
           minioPath,
         },
-        tenantOverride
+        options.tenant
       );
 
       if (registerResult.success) {
         spinner.succeed("Deployment registered in database");
       } else {
-        spinner.warn(`Deployment uploaded but not registered: ${registerResult.message}`);
+        // Never leave a version behind that the API does not know about
+        await revertVersion(committed);
+        throw new Error(`Deployment not registered: ${registerResult.message}`);
       }
     } else {
       spinner.warn("Deployment uploaded but not registered (no auth token)");
     }
+    await acceptCommittedWorkflow(committed);
 
-    // Cleanup
-    cleanup(tempBundlePath);
-
-    // Success message
-    console.log("");
-    console.log(chalk.green("Workflow deployed successfully!"));
-    console.log("");
-    console.log(chalk.bold("Details:"));
-    console.log(`  Name:      ${chalk.cyan(config.name)}`);
-    console.log(`  Version:   ${chalk.cyan(version)}`);
-    console.log(`  Namespace: ${chalk.cyan(config.namespace)}`);
-    console.log(`  TaskQueue: ${chalk.cyan(config.taskQueue)}`);
-    console.log(`  Trigger:   ${chalk.cyan(config.trigger.type)}`);
-    console.log(`  Checksum:  ${chalk.gray(checksum.substring(0, 16))}...`);
-    console.log(`  Location:  ${chalk.gray(bundleKey)}`);
-
-    // Show tenant info
-    if (tenantOverride) {
-      console.log(`  Tenant:    ${chalk.cyan(tenantOverride)}`);
-    } else {
-      const tenant = getCurrentTenant();
-      if (tenant) {
-        console.log(`  Tenant:    ${chalk.cyan(tenant.tenantId)}`);
+    // Move the channel pointer (latest by default) only once the version is verified and registered,
+    // and only while no one else can have moved it in the meantime
+    await lock.ensureHeld();
+    await setChannelVersion(config.name, channel, version);
+
+    // Apply the workflow's retention policy
+    if (config.retention) {
+      spinner.start("Applying retention policy...");
+      try {
+        const pruned = await pruneWorkflow(config.name, config.retention);
+        spinner.succeed(
+          pruned.removed.length > 0
+            ? `Retention policy removed ${pruned.removed.length} old version(s)`
+            : "Retention policy applied, nothing to remove"
+        );
+      } catch (error) {
+        spinner.warn(`Retention policy not applied: ${error instanceof Error ? error.message : error}`);
       }
     }
 
-    console.log("");
+    return {
+      status: "deployed",
+      name: config.name,
+      version,
+      channel,
+      config,
+      checksum,
+      compiled,
+      signature,
+      bundleKey,
+      provenance,
+    };
+  });
+}
+
+// Explain why a workflow was not deployed
+function describeSkip(result: Extract<DeployResult, { status: "exists" | "unchanged" }>): string {
+  return result.status === "exists"
+    ? `Version ${result.version} already exists. Use --force to overwrite.`
+    : `No changes since ${result.version} (checksum ${result.checksum.substring(0, 16)}...). Use --force to deploy anyway.`;
+}
+
+function printDeployed(result: Extract<DeployResult, { status: "deployed" }>, tenantOverride?: string): void {
+  const { config, version, channel, checksum, compiled, signature, bundleKey, provenance } = result;
+
+  // Success message
+  console.log("");
+  console.log(chalk.green("Workflow deployed successfully!"));
+  console.log("");
+  console.log(chalk.bold("Details:"));
+  console.log(`  Name:      ${chalk.cyan(config.name)}`);
+  console.log(`  Version:   ${chalk.cyan(version)}`);
+  if (channel !== DEFAULT_CHANNEL) {
+    console.log(`  Channel:   ${chalk.cyan(channel)}`);
+  }
+  console.log(`  Namespace: ${chalk.cyan(config.namespace)}`);
+  console.log(`  TaskQueue: ${chalk.cyan(config.taskQueue)}`);
+  console.log(`  Trigger:   ${chalk.cyan(config.trigger.type)}`);
+  console.log(`  Checksum:  ${chalk.gray(checksum.substring(0, 16))}...`);
+  if (provenance.git) {
+    console.log(`  Commit:    ${chalk.gray(provenance.git.commit.substring(0, 12))}${provenance.git.dirty ? chalk.yellow(" (dirty)") : ""}`);
+  }
+  console.log(`  Build:     ${compiled ? chalk.gray(`${compiled.build.artifact} (${compiled.build.size} bytes)`) : chalk.gray("skipped")}`);
+  console.log(`  Signed:    ${signature ? chalk.green(`yes (${signature.keyId})`) : chalk.gray("no")}`);
+  console.log(`  Location:  ${chalk.gray(bundleKey)}`);
+
+  // Show tenant info
+  if (tenantOverride) {
+    console.log(`  Tenant:    ${chalk.cyan(tenantOverride)}`);
+  } else {
+    const tenant = getCurrentTenant();
+    if (tenant) {
+      console.log(`  Tenant:    ${chalk.cyan(tenant.tenantId)}`);
+    }
+  }
+
+  console.log("");
+}
+
+// Deploy every workflow of a repository, a few at a time. Unchanged workflows are
+// skipped by checksum, and a failure does not stop the others.
+async function deployAll(workspacePath: string, options: DeployOptions): Promise<void> {
+  const concurrency = options.concurrency ? parseInt(options.concurrency, 10) : DEFAULT_CONCURRENCY;
+  if (isNaN(concurrency) || concurrency < 1) {
+    throw new Error(`--concurrency must be a positive number, got "${options.concurrency}"`);
+  }
+  if (options.version || options.listFiles) {
+    throw new Error("--version and --list-files apply to a single workflow and cannot be used with --all");
+  }
+
+  const { dirs, manifest } = resolveWorkspace(workspacePath);
+  if (dirs.length === 0) {
+    throw new Error(`No workflows found under ${path.resolve(workspacePath)}`);
+  }
+
+  console.log(
+    chalk.bold(`\nDeploying ${dirs.length} workflow(s) from ${manifest ? path.relative(process.cwd(), manifest) : workspacePath}`) +
+      chalk.gray(` (${Math.min(concurrency, dirs.length)} at a time)\n`)
+  );
+
+  // Output of each workflow is kept apart and printed in the summary, so parallel deploys never interleave
+  const outcomes: { dir: string; result?: DeployResult; error?: string; output: string[] }[] = [];
+  let next = 0;
+
+  // Each worker takes the next folder until none are left
+  const worker = async (): Promise<void> => {
+    while (next < dirs.length) {
+      const index = next++;
+      const dir = path.relative(process.cwd(), dirs[index]) || ".";
+      const output: string[] = [];
+
+      try {
+        const result = await deployWorkflow(dirs[index], options, ora({ isSilent: true }), (message) => output.push(message));
+        outcomes[index] = { dir, result, output };
+        console.log(result.status === "deployed" ? chalk.green(`✔ ${dir}`) : chalk.gray(`- ${dir}`));
+      } catch (error) {
+        outcomes[index] = { dir, error: error instanceof Error ? error.message : String(error), output };
+        console.log(chalk.red(`✖ ${dir}`));
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, dirs.length) }, worker));
+
+  console.log("");
+  console.log(chalk.bold("Summary:"));
+  for (const { dir, result, error, output } of outcomes) {
+    if (!result) {
+      console.log(`  ${chalk.red("failed".padEnd(10))} ${dir}`);
+      for (const line of output.filter((line) => line.trim() !== "")) {
+        console.log(`           ${line}`);
+      }
+      console.log(chalk.red(`             ${(error || "").split("\n").join("\n             ")}`));
+    } else if (result.status === "deployed") {
+      console.log(`  ${chalk.green("deployed".padEnd(10))} ${dir}  ${chalk.cyan(`${result.name}@${result.version}`)}`);
+    } else if (result.status !== "listed") {
+      console.log(`  ${chalk.gray(result.status.padEnd(10))} ${dir}  ${chalk.gray(describeSkip(result))}`);
+    }
+  }
+
+  const failed = outcomes.filter((outcome) => !outcome.result).length;
+  const deployed = outcomes.filter((outcome) => outcome.result?.status === "deployed").length;
+  console.log("");
+  console.log(`${deployed} deployed, ${outcomes.length - deployed - failed} skipped, ${failed} failed`);
+  console.log("");
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+export async function deploy(workflowPath: string, options: DeployOptions): Promise<void> {
+  const spinner = ora();
+  const absolutePath = path.resolve(workflowPath);
+
+  // Validate tenant for master admin
+  const tenantOverride = options.tenant;
+  const tenantError = checkTenantOverride(tenantOverride);
+
+  if (tenantError) {
+    console.error(chalk.red(`\nError: ${tenantError}`));
+    if (isMasterAdmin()) {
+      console.error(chalk.gray("Usage: workflow-cli deploy <path> --tenant <tenant_id>\n"));
+    }
+    process.exit(1);
+  }
+
+  // Store objects under the tenant's prefix
+  useTenant(tenantOverride);
+
+  if (options.all) {
+    try {
+      await deployAll(workflowPath, options);
+    } catch (error) {
+      console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+    return;
+  }
+
+  try {
+    const result = await deployWorkflow(absolutePath, options, spinner);
+
+    if (result.status === "deployed") {
+      printDeployed(result, tenantOverride);
+    } else if (result.status !== "listed") {
+      console.log(chalk.yellow(`\n${describeSkip(result)}`));
+    }
   } catch (error) {
     spinner.fail("Deployment failed");
     console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
@@ -0,0 +1,117 @@
+import chalk from "chalk";
+import ora from "ora";
+import { getBundle, getMetadata, useTenant } from "../services/minio";
+import { diffBundles, diffMetadata, FileChange } from "../services/diff";
+
+interface DiffOptions {
+  patch?: boolean;
+  tenant?: string;
+}
+
+const STATUS_MARKERS: Record<FileChange["status"], string> = {
+  added: chalk.green("A"),
+  removed: chalk.red("D"),
+  modified: chalk.yellow("M"),
+};
+
+function printPatch(patch: string): void {
+  for (const line of patch.split("\n")) {
+    if (line.startsWith("+++") || line.startsWith("---")) {
+      console.log(chalk.bold(line));
+    } else if (line.startsWith("+")) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith("-")) {
+      console.log(chalk.red(line));
+    } else if (line.startsWith("@@")) {
+      console.log(chalk.cyan(line));
+    } else if (!line.startsWith("====")) {
+      console.log(line);
+    }
+  }
+}
+
+export async function diffVersions(
+  workflowName: string,
+  versionA: string,
+  versionB: string,
+  options: DiffOptions
+): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    spinner.start(`Fetching ${versionA} and ${versionB}...`);
+
+    const [metadataA, metadataB, bundleA, bundleB] = await Promise.all([
+      getMetadata(workflowName, versionA),
+      getMetadata(workflowName, versionB),
+      getBundle(workflowName, versionA),
+      getBundle(workflowName, versionB),
+    ]);
+
+    for (const [version, metadata, bundle] of [
+      [versionA, metadataA, bundleA],
+      [versionB, metadataB, bundleB],
+    ] as const) {
+      if (!metadata || !bundle) {
+        spinner.fail(`Version not found: ${workflowName}@${version}`);
+        process.exit(1);
+      }
+    }
+
+    spinner.stop();
+
+    const metadataChanges = diffMetadata(metadataA!, metadataB!);
+    const fileChanges = diffBundles(bundleA!, bundleB!, versionA, versionB);
+    const breaking = metadataChanges.filter((change) => change.breaking);
+
+    console.log("");
+    console.log(chalk.bold.cyan(`Workflow: ${workflowName}`));
+    console.log(chalk.gray(`${versionA} -> ${versionB}`));
+
+    if (breaking.length > 0) {
+      console.log("");
+      console.log(chalk.bold.red("Breaking changes:"));
+      for (const change of breaking) {
+        console.log(chalk.red(`  ! ${change.field}: ${change.before ?? "(none)"} -> ${change.after ?? "(none)"}`));
+      }
+    }
+
+    console.log("");
+    console.log(chalk.bold("Metadata:"));
+    if (metadataChanges.length === 0) {
+      console.log(chalk.gray("  No changes"));
+    }
+    for (const change of metadataChanges) {
+      const label = change.breaking ? chalk.red(change.field) : change.field;
+      console.log(`  ${label}:`);
+      console.log(chalk.red(`    - ${change.before ?? "(none)"}`));
+      console.log(chalk.green(`    + ${change.after ?? "(none)"}`));
+    }
+
+    console.log("");
+    console.log(chalk.bold("Files:"));
+    if (fileChanges.length === 0) {
+      console.log(chalk.gray("  No changes"));
+    }
+    for (const change of fileChanges) {
+      console.log(`  ${STATUS_MARKERS[change.status]} ${change.path}${change.binary ? chalk.gray(" (binary)") : ""}`);
+    }
+
+    if (options.patch !== false) {
+      for (const change of fileChanges) {
+        if (change.patch) {
+          console.log("");
+          printPatch(change.patch);
+        }
+      }
+    }
+
+    console.log("");
+  } catch (error) {
+    spinner.fail("Diff failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,44 @@
+import * as path from "path";
+import chalk from "chalk";
+import ora from "ora";
+import { useTenant, CHANNELS_DIR } from "../services/minio";
+import { exportWorkflowArchive } from "../services/archive";
+
+interface ExportOptions {
+  out?: string;
+  tenant?: string;
+}
+
+export async function exportWorkflow(workflowName: string, options: ExportOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    const outputPath = path.resolve(options.out || `${workflowName}.tar`);
+
+    spinner.start(`Exporting ${workflowName}...`);
+    const manifest = await exportWorkflowArchive(workflowName, outputPath);
+    spinner.succeed("Export complete");
+
+    const versions = new Set(
+      manifest.files
+        .map((file) => file.key.split("/"))
+        .filter((parts) => parts.length > 1 && parts[0] !== CHANNELS_DIR)
+        .map((parts) => parts[0])
+    );
+
+    console.log("");
+    console.log(chalk.bold("Details:"));
+    console.log(`  Workflow:  ${chalk.cyan(workflowName)}`);
+    console.log(`  Versions:  ${versions.size}`);
+    console.log(`  Latest:    ${chalk.green(manifest.latest || "none")}`);
+    console.log(`  Objects:   ${manifest.files.length}`);
+    console.log(`  Archive:   ${chalk.gray(outputPath)}`);
+    console.log("");
+  } catch (error) {
+    spinner.fail("Export failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
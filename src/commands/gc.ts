@@ -0,0 +1,114 @@
+import chalk from "chalk";
+import ora from "ora";
+import { getWorkflowLock, listWorkflows, useTenant } from "../services/minio";
+import { scanWorkflow, scanStaging, fixWorkflowIssues, fixStagingIssues, GcIssue } from "../services/gc";
+import { isLockExpired, withWorkflowLock } from "../services/lock";
+
+interface GcOptions {
+  fix?: boolean;
+  skipChecksums?: boolean;
+  tenant?: string;
+}
+
+const ISSUE_LABELS: Record<GcIssue["type"], string> = {
+  "dangling-latest": "Dangling latest pointer",
+  "dangling-channel": "Dangling channel pointer",
+  "dangling-split": "Dangling traffic split",
+  "missing-bundle": "Missing bundle",
+  "missing-metadata": "Missing metadata",
+  "checksum-mismatch": "Checksum mismatch",
+  "stale-staging": "Abandoned staged upload",
+};
+
+function printIssue(issue: GcIssue): void {
+  const target = issue.version ? `${issue.workflowName}@${issue.version}` : issue.workflowName;
+  console.log(`  ${chalk.red("✖")} ${chalk.bold(ISSUE_LABELS[issue.type])}: ${chalk.cyan(target)}`);
+  console.log(chalk.gray(`      ${issue.detail}`));
+}
+
+// A workflow with a live lock has an operation in flight, its objects may be half written
+async function isBusy(workflowName: string): Promise<boolean> {
+  const current = await getWorkflowLock(workflowName);
+  return current !== null && !isLockExpired(current.lock);
+}
+
+export async function gc(options: GcOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    spinner.start("Fetching workflows...");
+    const workflows = await listWorkflows();
+    spinner.stop();
+
+    const issuesByWorkflow = new Map<string, GcIssue[]>();
+    const busy = new Set<string>();
+
+    for (const workflowName of workflows) {
+      spinner.start(`Scanning ${workflowName}...`);
+      if (await isBusy(workflowName)) {
+        busy.add(workflowName);
+        continue;
+      }
+      const issues = await scanWorkflow(workflowName, { verifyChecksums: !options.skipChecksums });
+      if (issues.length > 0) {
+        issuesByWorkflow.set(workflowName, issues);
+      }
+    }
+
+    spinner.start("Scanning staging area...");
+    const stagingIssues: GcIssue[] = [];
+    for (const issue of await scanStaging()) {
+      if (busy.has(issue.workflowName) || (await isBusy(issue.workflowName))) {
+        busy.add(issue.workflowName);
+      } else {
+        stagingIssues.push(issue);
+      }
+    }
+    spinner.stop();
+
+    if (busy.size > 0) {
+      console.log(chalk.yellow(`\nSkipped ${busy.size} workflow(s) with an operation in progress: ${Array.from(busy).join(", ")}`));
+    }
+
+    const allIssues = [...Array.from(issuesByWorkflow.values()).flat(), ...stagingIssues];
+
+    if (allIssues.length === 0) {
+      console.log(chalk.green(`\nScanned ${workflows.length} workflow(s), no problems found.\n`));
+      return;
+    }
+
+    console.log(chalk.bold(`\nFound ${allIssues.length} problem(s) in ${workflows.length} workflow(s):\n`));
+    for (const issue of allIssues) {
+      printIssue(issue);
+    }
+    console.log("");
+
+    if (!options.fix) {
+      console.log(chalk.yellow("Run with --fix to repair these problems.\n"));
+      process.exit(1);
+    }
+
+    for (const workflowName of issuesByWorkflow.keys()) {
+      spinner.start(`Repairing ${workflowName}...`);
+      // Decide again under the lock, the scan above ran without it
+      const actions = await withWorkflowLock(workflowName, "gc", async () =>
+        fixWorkflowIssues(workflowName, await scanWorkflow(workflowName, { verifyChecksums: !options.skipChecksums }))
+      );
+      spinner.succeed(`${workflowName}: ${actions.length > 0 ? actions.join(", ") : "nothing left to repair"}`);
+    }
+
+    if (stagingIssues.length > 0) {
+      spinner.start("Cleaning staging area...");
+      const actions = await fixStagingIssues(stagingIssues);
+      spinner.succeed(`Removed ${actions.length} abandoned staged upload(s)`);
+    }
+
+    console.log(chalk.green("\nGarbage collection complete.\n"));
+  } catch (error) {
+    spinner.fail("Garbage collection failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
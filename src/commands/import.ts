@@ -0,0 +1,67 @@
+import * as fs from "fs";
+import * as path from "path";
+import chalk from "chalk";
+import ora from "ora";
+import { importWorkflowObjects, listWorkflowObjects, useTenant } from "../services/minio";
+import { readWorkflowArchive, renameArchiveFiles } from "../services/archive";
+import { withWorkflowLock } from "../services/lock";
+
+interface ImportOptions {
+  rename?: string;
+  force?: boolean;
+  tenant?: string;
+}
+
+export async function importWorkflow(archivePath: string, options: ImportOptions): Promise<void> {
+  const spinner = ora();
+  const absolutePath = path.resolve(archivePath);
+
+  if (!fs.existsSync(absolutePath)) {
+    console.error(chalk.red(`\nError: Archive not found: ${absolutePath}\n`));
+    process.exit(1);
+  }
+
+  try {
+    useTenant(options.tenant);
+
+    spinner.start("Reading archive...");
+    const archive = await readWorkflowArchive(absolutePath);
+    spinner.succeed(`Archive verified (${archive.files.length} object(s))`);
+
+    const workflowName = options.rename || archive.manifest.workflowName;
+    const files = workflowName === archive.manifest.workflowName ? archive.files : renameArchiveFiles(archive, workflowName);
+
+    const imported = await withWorkflowLock(workflowName, "import", async () => {
+      const existing = await listWorkflowObjects(workflowName);
+      if (existing.length > 0 && !options.force) {
+        return false;
+      }
+
+      spinner.start(`Restoring ${workflowName}...`);
+      await importWorkflowObjects(workflowName, files);
+      spinner.succeed(`Restored ${files.length} object(s)`);
+      return true;
+    });
+
+    if (!imported) {
+      console.log(chalk.yellow(`\nWorkflow ${workflowName} already exists. Use --rename or --force to overwrite.`));
+      return;
+    }
+
+    console.log("");
+    console.log(chalk.green("Workflow imported successfully!"));
+    console.log("");
+    console.log(chalk.bold("Details:"));
+    console.log(`  Workflow:  ${chalk.cyan(workflowName)}`);
+    if (options.rename) {
+      console.log(`  Original:  ${chalk.gray(archive.manifest.workflowName)}`);
+    }
+    console.log(`  Latest:    ${chalk.green(archive.manifest.latest || "none")}`);
+    console.log(`  Exported:  ${new Date(archive.manifest.exportedAt).toLocaleString()}`);
+    console.log("");
+  } catch (error) {
+    spinner.fail("Import failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
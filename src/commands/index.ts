@@ -1,8 +1,22 @@
 export { deploy } from "./deploy";
+export { build } from "./build";
+export { lint } from "./lint";
 export { list } from "./list";
 export { rollback } from "./rollback";
+export { tag } from "./tag";
+export { split } from "./split";
 export { deleteWorkflow } from "./delete";
 export { info } from "./info";
+export { pull } from "./pull";
+export { migrate } from "./migrate";
+export { prune } from "./prune";
+export { gc } from "./gc";
+export { reindex } from "./reindex";
+export { verify } from "./verify";
+export { promote } from "./promote";
+export { exportWorkflow } from "./export";
+export { importWorkflow } from "./import";
+export { diffVersions } from "./diff";
 export { login, logout, whoami } from "./login";
 export { init } from "./init";
 export { run, signal, query, cancel, terminate, status } from "./run";
@@ -1,14 +1,44 @@
 import chalk from "chalk";
 import ora from "ora";
-import { getLatestVersion, getMetadata, listVersions } from "../services/minio";
+import {
+  getLatestVersion,
+  getMetadata,
+  getSignature,
+  getBundle,
+  getTrafficSplit,
+  listChannels,
+  listVersions,
+  useTenant,
+} from "../services/minio";
+import { verifyBundleSignature, SignatureCheck } from "../services/signing";
 
-export async function info(workflowName: string, version?: string): Promise<void> {
+interface InfoOptions {
+  version?: string;
+  tenant?: string;
+}
+
+function formatSignature(check: SignatureCheck): string {
+  switch (check.status) {
+    case "valid":
+      return chalk.green(`✔ ${check.message}`);
+    case "invalid":
+      return chalk.red(`✖ ${check.message}`);
+    case "untrusted":
+      return chalk.yellow(check.message);
+    case "unsigned":
+      return chalk.gray(check.message);
+  }
+}
+
+export async function info(workflowName: string, options: InfoOptions): Promise<void> {
   const spinner = ora();
 
   try {
+    useTenant(options.tenant);
+
     spinner.start("Fetching workflow info...");
 
-    const targetVersion = version || (await getLatestVersion(workflowName));
+    const targetVersion = options.version || (await getLatestVersion(workflowName));
 
     if (!targetVersion) {
       spinner.fail(`Workflow not found: ${workflowName}`);
@@ -18,6 +48,11 @@ export async function info(workflowName: string, version?: string): Promise<void
     const metadata = await getMetadata(workflowName, targetVersion);
     const versions = await listVersions(workflowName);
     const latestVersion = await getLatestVersion(workflowName);
+    const channels = await listChannels(workflowName);
+    const split = await getTrafficSplit(workflowName);
+    const signature = metadata ? await getSignature(workflowName, targetVersion) : null;
+    // A signature only counts for the bundle that is actually stored
+    const bundle = signature ? await getBundle(workflowName, targetVersion) : null;
 
     spinner.stop();
 
@@ -43,12 +78,59 @@ export async function info(workflowName: string, version?: string): Promise<void
     console.log(`  Current:     ${chalk.cyan(targetVersion)}${targetVersion === latestVersion ? chalk.green(" (latest)") : ""}`);
     console.log(`  Deployed:    ${new Date(metadata.deployedAt).toLocaleString()}`);
     console.log(`  Deployed by: ${metadata.deployedBy || "unknown"}`);
+    if (metadata.promotedFrom) {
+      console.log(
+        `  Promoted:    from ${metadata.promotedFrom.environment} by ${metadata.promotedFrom.promotedBy} at ${new Date(metadata.promotedFrom.promotedAt).toLocaleString()}`
+      );
+    }
     console.log(`  Checksum:    ${metadata.checksum}`);
+    if (metadata.build) {
+      console.log(`  Build:       ${metadata.build.artifact} (${metadata.build.size} bytes, ${metadata.build.bundler})`);
+    }
+    console.log(`  Signature:   ${formatSignature(verifyBundleSignature(metadata, signature, { name: workflowName, version: targetVersion, bundle }))}`);
+
+    const provenance = metadata.provenance;
+    if (provenance) {
+      console.log("");
+      console.log(chalk.bold("Source:"));
+      if (provenance.git) {
+        console.log(`  Commit:      ${provenance.git.commit}${provenance.git.dirty ? chalk.yellow(" (dirty)") : ""}`);
+        console.log(`  Branch:      ${provenance.git.branch || chalk.gray("detached")}`);
+        console.log(`  Remote:      ${provenance.git.remote || chalk.gray("none")}`);
+      } else {
+        console.log(`  Git:         ${chalk.gray("not a git checkout")}`);
+      }
+      console.log(`  Host:        ${provenance.hostname}`);
+      console.log(`  CLI:         workflow-cli ${provenance.cliVersion}`);
+      if (provenance.message) {
+        console.log(`  Message:     ${provenance.message}`);
+      }
+    }
+
+    const channelNames = Object.keys(channels).sort();
+    if (channelNames.length > 0) {
+      console.log("");
+      console.log(chalk.bold("Channels:"));
+      for (const channel of channelNames) {
+        console.log(`  ${channel.padEnd(12)} ${chalk.cyan(channels[channel])}`);
+      }
+    }
+
+    if (split) {
+      console.log("");
+      console.log(chalk.bold("Traffic Split:"));
+      for (const [version, weight] of Object.entries(split.weights)) {
+        console.log(`  ${version.padEnd(24)} ${String(weight).padStart(3)}%`);
+      }
+      console.log(chalk.gray(`  Updated ${new Date(split.updatedAt).toLocaleString()} by ${split.updatedBy}`));
+    }
 
     console.log("");
     console.log(chalk.bold("All Versions:"));
     for (const v of versions) {
-      const marker = v === latestVersion ? chalk.green(" (latest)") : "";
+      const tags = channelNames.filter((channel) => channels[channel] === v);
+      const marker =
+        (v === latestVersion ? chalk.green(" (latest)") : "") + (tags.length > 0 ? chalk.magenta(` [${tags.join(", ")}]`) : "");
       const current = v === targetVersion ? chalk.cyan(" <--") : "";
       console.log(`  - ${v}${marker}${current}`);
     }
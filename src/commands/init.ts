@@ -169,6 +169,7 @@ interface ${pascalName}Result {
   }
 }
 
+// Workflow body per trigger. Timestamps come from activities, workflow code must stay deterministic.
 function getWorkflowLogic(triggerType: TriggerType, camelName: string): string {
   switch (triggerType) {
     case "webhook":
@@ -182,7 +183,7 @@ function getWorkflowLogic(triggerType: TriggerType, camelName: string): string {
   return {
     success: true,
     message: "Webhook processed successfully",
-    processedAt: new Date().toISOString(),
+    processedAt: String(processed.processedAt),
   };`;
 
     case "schedule":
@@ -196,18 +197,20 @@ function getWorkflowLogic(triggerType: TriggerType, camelName: string): string {
   return {
     success: true,
     message: "Scheduled task completed successfully",
-    completedAt: new Date().toISOString(),
+    completedAt: String(result.processedAt),
   };`;
 
     case "polling":
       return `  await activities.logMessage(\`Polling check at: \${input.polledAt}\`);
   
   let itemsProcessed = 0;
+  let completedAt = input.polledAt;
   
   if (input.data) {
     // Process polled data
-    await activities.processData(input.data);
+    const processed = await activities.processData(input.data);
     itemsProcessed = 1;
+    completedAt = String(processed.processedAt);
     await activities.logMessage("Polled data processed");
   } else {
     await activities.logMessage("No data to process");
@@ -216,7 +219,7 @@ function getWorkflowLogic(triggerType: TriggerType, camelName: string): string {
   return {
     success: true,
     itemsProcessed,
-    completedAt: new Date().toISOString(),
+    completedAt,
   };`;
 
     case "manual":
@@ -230,7 +233,7 @@ function getWorkflowLogic(triggerType: TriggerType, camelName: string): string {
   return {
     success: true,
     message: "Workflow completed successfully",
-    completedAt: new Date().toISOString(),
+    completedAt: String(processed.processedAt),
   };`;
   }
 }
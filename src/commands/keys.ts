@@ -0,0 +1,83 @@
+import chalk from "chalk";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { generateSigningKey, loadTrustedKeys, trustKey } from "../services/signing";
+import { getSigningConfig, updateSigningConfig } from "./config";
+
+const KEYS_DIR = path.join(os.homedir(), ".workflow-cli", "keys");
+
+export async function keysGenerate(keyId: string, options: { force?: boolean }): Promise<void> {
+  const privateKeyPath = path.join(KEYS_DIR, `${keyId}.pem`);
+  const publicKeyPath = path.join(KEYS_DIR, `${keyId}.pub`);
+
+  if (fs.existsSync(privateKeyPath) && !options.force) {
+    console.error(chalk.red(`\nError: Key ${keyId} already exists at ${privateKeyPath}. Use --force to replace it.\n`));
+    process.exit(1);
+  }
+
+  try {
+    const { privateKey, publicKey } = generateSigningKey();
+
+    fs.mkdirSync(KEYS_DIR, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(privateKeyPath, privateKey, { mode: 0o600 });
+    fs.writeFileSync(publicKeyPath, publicKey);
+
+    // Use the new key for deploys and trust our own signatures
+    updateSigningConfig({ keyId, privateKeyPath });
+    trustKey(keyId, publicKey);
+
+    console.log(chalk.green(`\nGenerated Ed25519 signing key: ${keyId}\n`));
+    console.log(`  Private key: ${chalk.gray(privateKeyPath)}`);
+    console.log(`  Public key:  ${chalk.gray(publicKeyPath)}`);
+    console.log("");
+    console.log(chalk.gray("Share the public key with everyone who verifies your deploys:"));
+    console.log(chalk.gray(`  workflow-cli keys trust ${keyId} ${keyId}.pub\n`));
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}\n`));
+    process.exit(1);
+  }
+}
+
+export async function keysTrust(keyId: string, publicKeyFile: string): Promise<void> {
+  const filePath = path.resolve(publicKeyFile);
+
+  if (!fs.existsSync(filePath)) {
+    console.error(chalk.red(`\nError: Public key file not found: ${filePath}\n`));
+    process.exit(1);
+  }
+
+  try {
+    trustKey(keyId, fs.readFileSync(filePath, "utf-8"));
+    console.log(chalk.green(`Trusted key ${keyId}`));
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}\n`));
+    process.exit(1);
+  }
+}
+
+export async function keysList(): Promise<void> {
+  try {
+    const signing = getSigningConfig();
+    const trustedKeys = loadTrustedKeys();
+
+    console.log(chalk.bold("\nSigning Keys\n"));
+    console.log(`  Signing with: ${signing.keyId ? chalk.cyan(signing.keyId) : chalk.gray("none")}`);
+    console.log(`  Trusted keys: ${chalk.gray(signing.trustedKeysPath)}`);
+    console.log("");
+
+    const keyIds = Object.keys(trustedKeys);
+    if (keyIds.length === 0) {
+      console.log(chalk.yellow("  No trusted keys.\n"));
+      return;
+    }
+
+    for (const keyId of keyIds) {
+      console.log(`  - ${keyId}`);
+    }
+    console.log("");
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}\n`));
+    process.exit(1);
+  }
+}
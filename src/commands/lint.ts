@@ -0,0 +1,43 @@
+import * as path from "path";
+import chalk from "chalk";
+import ora, { Ora } from "ora";
+import { validateWorkflowDir } from "../services/packager";
+import { lintWorkflow } from "../services/linter";
+
+// Check the workflow for determinism hazards, reporting progress on the spinner
+// and issues through log. Shared with deploy, which refuses to ship a workflow with issues.
+export async function lintWorkflowStep(
+  workflowDir: string,
+  spinner: Ora,
+  log: (message: string) => void = console.log
+): Promise<void> {
+  spinner.start("Checking workflow determinism...");
+  const issues = lintWorkflow(workflowDir);
+
+  if (issues.length === 0) {
+    spinner.succeed("No determinism issues found");
+    return;
+  }
+
+  spinner.fail(`Found ${issues.length} determinism issue(s)`);
+  log("");
+  for (const issue of issues) {
+    log(`  ${chalk.red(`${issue.file}:${issue.line}:${issue.column}`)}  ${issue.rule}  ${issue.message}`);
+    log(chalk.gray(`    -> ${issue.suggestion}`));
+  }
+  log("");
+  throw new Error("Workflow code is not deterministic");
+}
+
+export async function lint(workflowPath: string): Promise<void> {
+  const spinner = ora();
+  const absolutePath = path.resolve(workflowPath);
+
+  try {
+    validateWorkflowDir(absolutePath);
+    await lintWorkflowStep(absolutePath, spinner);
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
@@ -1,26 +1,55 @@
 import chalk from "chalk";
 import ora from "ora";
-import { listWorkflows, listVersions, getLatestVersion, getMetadata } from "../services/minio";
-import { ListOptions } from "../types";
+import {
+  listWorkflows,
+  listVersions,
+  getLatestVersion,
+  getMetadata,
+  getDeploymentIndex,
+  listChannels,
+  useTenant,
+} from "../services/minio";
+import { DeploymentIndexEntry, ListOptions } from "../types";
+
+// Read every workflow straight from the raw objects (used when no index exists yet)
+async function scanWorkflows(showVersions?: boolean): Promise<Record<string, DeploymentIndexEntry>> {
+  const entries: Record<string, DeploymentIndexEntry> = {};
+
+  for (const workflowName of await listWorkflows()) {
+    const latest = await getLatestVersion(workflowName);
+    entries[workflowName] = {
+      latest,
+      versions: showVersions ? await listVersions(workflowName) : [],
+      metadata: latest ? await getMetadata(workflowName, latest) : null,
+      channels: await listChannels(workflowName),
+    };
+  }
+
+  return entries;
+}
 
 export async function list(options: ListOptions): Promise<void> {
   const spinner = ora();
 
   try {
+    useTenant(options.tenant);
+
     spinner.start("Fetching workflows...");
-    const workflows = await listWorkflows();
+    const index = await getDeploymentIndex();
+    const workflows = index ? index.workflows : await scanWorkflows(options.showVersions);
     spinner.stop();
 
-    if (workflows.length === 0) {
+    const names = Object.keys(workflows).sort();
+
+    if (names.length === 0) {
       console.log(chalk.yellow("No workflows found."));
       return;
     }
 
-    console.log(chalk.bold(`\nFound ${workflows.length} workflow(s):\n`));
+    console.log(chalk.bold(`\nFound ${names.length} workflow(s):\n`));
 
-    for (const workflowName of workflows) {
-      const latestVersion = await getLatestVersion(workflowName);
-      const metadata = latestVersion ? await getMetadata(workflowName, latestVersion) : null;
+    for (const workflowName of names) {
+      const { latest: latestVersion, versions, metadata, channels } = workflows[workflowName];
 
       // Filter by namespace if specified
       if (options.namespace && metadata?.namespace !== options.namespace) {
@@ -31,25 +60,31 @@ export async function list(options: ListOptions): Promise<void> {
 
       if (metadata) {
         console.log(`    Latest:    ${chalk.green(latestVersion)}`);
+        if (channels && Object.keys(channels).length > 0) {
+          const pointers = Object.keys(channels)
+            .sort()
+            .map((channel) => `${channel}=${channels[channel]}`);
+          console.log(`    Channels:  ${pointers.join(", ")}`);
+        }
         console.log(`    Namespace: ${metadata.namespace}`);
         console.log(`    TaskQueue: ${metadata.taskQueue}`);
         console.log(`    Trigger:   ${metadata.trigger.type}`);
         console.log(`    Deployed:  ${new Date(metadata.deployedAt).toLocaleString()}`);
       }
 
-      if (options.showVersions) {
-        const versions = await listVersions(workflowName);
-        if (versions.length > 0) {
-          console.log(`    Versions:  ${versions.join(", ")}`);
-        }
+      if (options.showVersions && versions.length > 0) {
+        console.log(`    Versions:  ${versions.join(", ")}`);
       }
 
       console.log("");
     }
+
+    if (!index) {
+      console.log(chalk.gray("No deployment index found. Run 'workflow-cli reindex' to speed up listing.\n"));
+    }
   } catch (error) {
     spinner.fail("Failed to list workflows");
     console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
     process.exit(1);
   }
 }
-
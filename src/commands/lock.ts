@@ -0,0 +1,97 @@
+import chalk from "chalk";
+import ora from "ora";
+import { deleteWorkflowLock, getWorkflowLock, listWorkflowLocks, useTenant } from "../services/minio";
+import { describeLock, isLockExpired } from "../services/lock";
+import { WorkflowLock } from "../types";
+
+interface LockStatusOptions {
+  tenant?: string;
+}
+
+interface LockBreakOptions {
+  force?: boolean;
+  tenant?: string;
+}
+
+function printLock(lock: WorkflowLock): void {
+  const state = isLockExpired(lock) ? chalk.yellow("stale") : chalk.red("held");
+
+  console.log(`  ${chalk.cyan(lock.workflowName)} ${state}`);
+  console.log(`    Owner:      ${lock.owner} on ${lock.hostname} (pid ${lock.pid})`);
+  console.log(`    Operation:  ${lock.operation}`);
+  console.log(`    Acquired:   ${new Date(lock.acquiredAt).toLocaleString()}`);
+  console.log(`    Heartbeat:  ${new Date(lock.heartbeatAt).toLocaleString()}`);
+  console.log(`    Expires:    ${new Date(lock.expiresAt).toLocaleString()}`);
+}
+
+// Show the lock of one workflow, or every lock of the tenant
+export async function lockStatus(workflowName: string | undefined, options: LockStatusOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    spinner.start("Fetching locks...");
+    const current = workflowName ? await getWorkflowLock(workflowName) : null;
+    const locks = workflowName ? (current ? [current.lock] : []) : await listWorkflowLocks();
+    spinner.stop();
+
+    if (locks.length === 0) {
+      console.log(chalk.green(workflowName ? `${workflowName} is not locked.` : "No workflows are locked."));
+      return;
+    }
+
+    console.log("");
+    console.log(chalk.bold("Locks:"));
+    for (const lock of locks) {
+      printLock(lock);
+    }
+    console.log("");
+
+    if (locks.some((lock) => isLockExpired(lock))) {
+      console.log(chalk.gray("Stale locks are taken over by the next deploy, or remove them with: workflow-cli lock break <workflow>"));
+      console.log("");
+    }
+  } catch (error) {
+    spinner.fail("Failed to get lock status");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
+
+// Remove the lock of a workflow. A lock that has not expired is only removed with --force.
+export async function lockBreak(workflowName: string, options: LockBreakOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    spinner.start(`Checking lock of ${workflowName}...`);
+    const current = await getWorkflowLock(workflowName);
+
+    if (!current) {
+      spinner.stop();
+      console.log(chalk.green(`${workflowName} is not locked.`));
+      return;
+    }
+
+    const { lock, etag } = current;
+    if (!isLockExpired(lock) && !options.force) {
+      spinner.fail(`Lock is still held by ${describeLock(lock)}`);
+      console.log(chalk.gray(`It expires ${new Date(lock.expiresAt).toLocaleString()}. Use --force to remove it anyway.`));
+      process.exit(1);
+    }
+
+    spinner.text = `Breaking lock of ${workflowName}...`;
+    // Only remove the lock we looked at, not one taken since
+    if (!(await deleteWorkflowLock(workflowName, etag))) {
+      spinner.fail(`Lock of ${workflowName} changed while breaking it, check it again with: workflow-cli lock status ${workflowName}`);
+      process.exit(1);
+    }
+    spinner.succeed(`Lock of ${workflowName} removed (was held by ${describeLock(lock)})`);
+  } catch (error) {
+    spinner.fail("Failed to break lock");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,75 @@
+import chalk from "chalk";
+import ora from "ora";
+import { listLegacyWorkflows, migrateLegacyWorkflow, getTenantPrefix, useTenant } from "../services/minio";
+
+interface MigrateOptions {
+  all?: boolean;
+  dryRun?: boolean;
+  tenant?: string;
+}
+
+export async function migrate(workflowNames: string[], options: MigrateOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    const targetRoot = getTenantPrefix();
+    if (!targetRoot) {
+      console.log(chalk.red("No tenant available to migrate into. Log in or pass --tenant."));
+      process.exit(1);
+    }
+
+    spinner.start("Scanning for unprefixed workflows...");
+    const legacyWorkflows = await listLegacyWorkflows();
+    spinner.stop();
+
+    let targets: string[];
+    if (options.all) {
+      targets = legacyWorkflows;
+    } else if (workflowNames.length > 0) {
+      const missing = workflowNames.filter((name) => !legacyWorkflows.includes(name));
+      if (missing.length > 0) {
+        console.log(chalk.red(`No unprefixed objects found for: ${missing.join(", ")}`));
+        return;
+      }
+      targets = workflowNames;
+    } else {
+      console.log(chalk.yellow("Please specify workflow names or --all"));
+      if (legacyWorkflows.length > 0) {
+        console.log(`Unprefixed workflows: ${legacyWorkflows.join(", ")}`);
+      }
+      return;
+    }
+
+    if (targets.length === 0) {
+      console.log(chalk.green("Nothing to migrate, all workflows already use the tenant layout."));
+      return;
+    }
+
+    console.log(chalk.bold(`\n${options.dryRun ? "Would migrate" : "Migrating"} ${targets.length} workflow(s) into ${targetRoot}\n`));
+
+    let failed = 0;
+    for (const workflowName of targets) {
+      spinner.start(`${workflowName}...`);
+      try {
+        const count = await migrateLegacyWorkflow(workflowName, options.dryRun);
+        spinner.succeed(`${workflowName} ${chalk.gray(`(${count} object(s)${options.dryRun ? ", dry run" : ""})`)}`);
+      } catch (error) {
+        failed++;
+        spinner.fail(`${workflowName}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    console.log("");
+    if (failed > 0) {
+      console.log(chalk.red(`${failed} workflow(s) could not be migrated.\n`));
+      process.exit(1);
+    }
+    console.log(chalk.green(options.dryRun ? "Dry run complete, no objects were moved.\n" : "Migration complete.\n"));
+  } catch (error) {
+    spinner.fail("Migration failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,164 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import chalk from "chalk";
+import ora from "ora";
+import {
+  getMetadata,
+  getBundle,
+  getSignature,
+  getLatestVersion,
+  listVersions,
+  stageWorkflow,
+  commitStagedWorkflow,
+  acceptCommittedWorkflow,
+  revertCommittedWorkflow,
+  StagedWorkflow,
+  setLatestVersion,
+  useTenant,
+} from "../services/minio";
+import { useStorage } from "../services/storage";
+import { withWorkflowLock } from "../services/lock";
+import { resolveEnvironment } from "../services/environments";
+import { registerDeployment } from "../services/api";
+import { calculateBufferChecksum, cleanup } from "../services/packager";
+import { getDeployer } from "../services/auth";
+import { WorkflowMetadata } from "../types";
+
+interface PromoteOptions {
+  version: string;
+  from: string;
+  to: string;
+  force?: boolean;
+  tenant?: string;
+}
+
+export async function promote(workflowName: string, options: PromoteOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    const source = resolveEnvironment(options.from);
+    const target = resolveEnvironment(options.to);
+
+    if (source.storage.location === target.storage.location) {
+      console.error(chalk.red(`\nError: Source and target are the same location (${source.storage.location})\n`));
+      process.exit(1);
+    }
+
+    // Read the version from the source environment
+    spinner.start(`Reading ${workflowName}@${options.version} from ${source.label}...`);
+    useStorage(source.storage);
+
+    const metadata = await getMetadata(workflowName, options.version);
+    if (!metadata) {
+      spinner.fail(`Version ${options.version} not found in ${source.label}`);
+      process.exit(1);
+    }
+
+    const bundle = await getBundle(workflowName, options.version);
+    if (!bundle || calculateBufferChecksum(bundle) !== metadata.checksum) {
+      spinner.fail(`Bundle in ${source.label} ${bundle ? "does not match its checksum" : "is missing"}`);
+      process.exit(1);
+    }
+
+    const signature = await getSignature(workflowName, options.version);
+    spinner.succeed(`Read ${workflowName}@${options.version} from ${source.label}`);
+
+    // Check the target environment, holding its lock until the latest pointer moved
+    useStorage(target.storage);
+    const promoted = await withWorkflowLock(workflowName, "promote", async (lock) => {
+      const targetLatest = await getLatestVersion(workflowName);
+      const targetVersions = await listVersions(workflowName);
+
+      if (targetVersions.includes(options.version) && !options.force) {
+        return null;
+      }
+
+      // Copy the bundle unchanged, only the metadata gains promotion provenance
+      const promotedMetadata: WorkflowMetadata = {
+        ...metadata,
+        promotedFrom: {
+          environment: source.label,
+          promotedAt: new Date().toISOString(),
+          promotedBy: getDeployer(),
+        },
+      };
+
+      spinner.start(`Copying to ${target.label}...`);
+      const tempBundlePath = path.join(os.tmpdir(), `${workflowName}-${options.version}-promote.zip`);
+      fs.writeFileSync(tempBundlePath, bundle);
+
+      let staged: StagedWorkflow;
+      try {
+        staged = await stageWorkflow(workflowName, options.version, tempBundlePath, promotedMetadata, signature);
+      } finally {
+        cleanup(tempBundlePath);
+      }
+
+      // A failed copy restores what was there before
+      const committed = await commitStagedWorkflow(staged);
+      const { bundleKey } = committed;
+      spinner.succeed(`Copied and verified in ${target.label}`);
+
+      // Register with the target environment's API, using that environment's credential
+      spinner.start("Registering deployment...");
+
+      if (target.token) {
+        const registerResult = await registerDeployment(
+          target.token,
+          {
+            name: metadata.name,
+            namespace: metadata.namespace,
+            taskQueue: metadata.taskQueue,
+            version: options.version,
+            trigger: metadata.trigger,
+            checksum: metadata.checksum,
+            minioPath: bundleKey,
+          },
+          options.tenant,
+          target.apiUrl
+        );
+
+        if (registerResult.success) {
+          spinner.succeed(`Deployment registered with ${target.apiUrl}`);
+        } else {
+          // Restore a version overwritten with --force, remove a new one
+          await revertCommittedWorkflow(committed);
+          throw new Error(`Deployment not registered: ${registerResult.message}`);
+        }
+      } else {
+        spinner.warn(`Promoted but not registered (no auth token for ${target.apiUrl})`);
+      }
+      await acceptCommittedWorkflow(committed);
+
+      // Only move latest while no one else can have moved it during the copy
+      await lock.ensureHeld();
+      await setLatestVersion(workflowName, options.version);
+      return { targetLatest };
+    });
+
+    if (!promoted) {
+      console.log(chalk.yellow(`\nVersion ${options.version} already exists in ${target.label}. Use --force to overwrite.`));
+      return;
+    }
+    const { targetLatest } = promoted;
+
+    console.log("");
+    console.log(chalk.green("Workflow promoted successfully!"));
+    console.log("");
+    console.log(chalk.bold("Details:"));
+    console.log(`  Workflow:  ${chalk.cyan(workflowName)}`);
+    console.log(`  Version:   ${chalk.cyan(options.version)}`);
+    console.log(`  From:      ${source.label} ${chalk.gray(`(${source.storage.location})`)}`);
+    console.log(`  To:        ${target.label} ${chalk.gray(`(${target.storage.location})`)}`);
+    console.log(`  Previous:  ${chalk.gray(targetLatest || "none")}`);
+    console.log(`  Checksum:  ${chalk.gray(metadata.checksum.substring(0, 16))}...`);
+    console.log("");
+  } catch (error) {
+    spinner.fail("Promotion failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
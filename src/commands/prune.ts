@@ -0,0 +1,85 @@
+import chalk from "chalk";
+import ora from "ora";
+import { listWorkflows, useTenant } from "../services/minio";
+import { pruneWorkflow, parseDuration } from "../services/retention";
+import { withWorkflowLock } from "../services/lock";
+
+interface PruneOptions {
+  all?: boolean;
+  keep: string;
+  olderThan?: string;
+  dryRun?: boolean;
+  tenant?: string;
+}
+
+export async function prune(workflowName: string | undefined, options: PruneOptions): Promise<void> {
+  const spinner = ora();
+
+  const keep = parseInt(options.keep, 10);
+  if (isNaN(keep) || keep < 1) {
+    console.error(chalk.red(`\nError: --keep must be a positive number, got "${options.keep}"\n`));
+    process.exit(1);
+  }
+
+  if (options.olderThan) {
+    try {
+      parseDuration(options.olderThan);
+    } catch (error) {
+      console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}\n`));
+      process.exit(1);
+    }
+  }
+
+  if (!workflowName && !options.all) {
+    console.log(chalk.yellow("Please specify a workflow or --all"));
+    return;
+  }
+
+  try {
+    useTenant(options.tenant);
+
+    spinner.start("Fetching workflows...");
+    const workflows = options.all ? await listWorkflows() : [workflowName as string];
+    spinner.stop();
+
+    if (workflows.length === 0) {
+      console.log(chalk.yellow("No workflows found."));
+      return;
+    }
+
+    const policy = { keep, olderThan: options.olderThan };
+    let totalRemoved = 0;
+
+    console.log("");
+    for (const name of workflows) {
+      spinner.start(`Pruning ${name}...`);
+      // A dry run changes nothing, so it does not need the lock
+      const result = options.dryRun
+        ? await pruneWorkflow(name, policy, true)
+        : await withWorkflowLock(name, "prune", () => pruneWorkflow(name, policy));
+      spinner.stop();
+
+      totalRemoved += result.removed.length;
+
+      console.log(chalk.cyan.bold(`  ${name}`));
+      if (result.removed.length === 0) {
+        console.log(chalk.gray(`    Nothing to remove (${result.kept.length} version(s) kept)`));
+      } else {
+        const verb = options.dryRun ? "Would remove" : "Removed";
+        console.log(`    ${verb}: ${chalk.red(result.removed.join(", "))}`);
+        console.log(`    Kept:    ${chalk.green(result.kept.join(", "))}`);
+      }
+    }
+
+    console.log("");
+    if (options.dryRun) {
+      console.log(chalk.yellow(`Dry run: ${totalRemoved} version(s) would be removed.\n`));
+    } else {
+      console.log(chalk.green(`Removed ${totalRemoved} version(s).\n`));
+    }
+  } catch (error) {
+    spinner.fail("Prune failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
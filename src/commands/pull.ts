@@ -0,0 +1,109 @@
+import * as fs from "fs";
+import * as path from "path";
+import chalk from "chalk";
+import ora from "ora";
+import { getLatestVersion, getMetadata, getBundle, getSignature, useTenant } from "../services/minio";
+import { verifyBundleSignature, isSignatureAccepted } from "../services/signing";
+import { calculateBufferChecksum, extractBundle } from "../services/packager";
+
+interface PullOptions {
+  version?: string;
+  out?: string;
+  force?: boolean;
+  tenant?: string;
+}
+
+export async function pull(workflowName: string, options: PullOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    spinner.start("Fetching workflow info...");
+
+    const version = options.version || (await getLatestVersion(workflowName));
+
+    if (!version) {
+      spinner.fail(`Workflow not found: ${workflowName}`);
+      return;
+    }
+
+    const metadata = await getMetadata(workflowName, version);
+
+    if (!metadata) {
+      spinner.fail(`No metadata found for ${workflowName}@${version}`);
+      return;
+    }
+
+    const outputDir = path.resolve(options.out || `${workflowName}-${version}`);
+
+    if (fs.existsSync(outputDir) && fs.readdirSync(outputDir).length > 0 && !options.force) {
+      spinner.fail(`Output directory is not empty: ${outputDir}`);
+      console.log(chalk.gray("Use --force to extract into it anyway."));
+      return;
+    }
+
+    // Download the bundle
+    spinner.text = `Downloading ${workflowName}@${version}...`;
+    const bundle = await getBundle(workflowName, version);
+
+    if (!bundle) {
+      spinner.fail(`Bundle not found for ${workflowName}@${version}`);
+      return;
+    }
+    spinner.succeed(`Downloaded bundle (${bundle.length} bytes)`);
+
+    // Verify against the checksum recorded at deploy time
+    spinner.start("Verifying checksum...");
+    const checksum = calculateBufferChecksum(bundle);
+
+    if (checksum !== metadata.checksum) {
+      spinner.fail("Checksum mismatch");
+      console.error(chalk.red(`\nExpected: ${metadata.checksum}`));
+      console.error(chalk.red(`Actual:   ${checksum}`));
+      console.error(chalk.red("The bundle in storage does not match its metadata. Nothing was extracted.\n"));
+      process.exit(1);
+    }
+    spinner.succeed("Checksum verified");
+
+    // Verify the signature against the trusted keys
+    spinner.start("Verifying signature...");
+    const signatureCheck = verifyBundleSignature(metadata, await getSignature(workflowName, version), {
+      name: workflowName,
+      version,
+      bundle,
+    });
+
+    if (!isSignatureAccepted(signatureCheck)) {
+      spinner.fail(signatureCheck.message);
+      console.error(chalk.red("\nThe bundle is not signed by a trusted key. Nothing was extracted.\n"));
+      process.exit(1);
+    }
+    if (signatureCheck.status === "valid") {
+      spinner.succeed(signatureCheck.message);
+    } else {
+      spinner.warn(signatureCheck.message);
+    }
+
+    // Extract
+    spinner.start(`Extracting to ${outputDir}...`);
+    fs.mkdirSync(outputDir, { recursive: true });
+    const files = extractBundle(bundle, outputDir);
+    spinner.succeed(`Extracted ${files.length} file(s)`);
+
+    console.log("");
+    console.log(chalk.green("Workflow pulled successfully!"));
+    console.log("");
+    console.log(chalk.bold("Details:"));
+    console.log(`  Name:      ${chalk.cyan(metadata.name)}`);
+    console.log(`  Version:   ${chalk.cyan(version)}`);
+    console.log(`  Deployed:  ${new Date(metadata.deployedAt).toLocaleString()}`);
+    console.log(`  Checksum:  ${chalk.gray(checksum.substring(0, 16))}...`);
+    console.log(`  Output:    ${chalk.gray(outputDir)}`);
+    console.log("");
+  } catch (error) {
+    spinner.fail("Pull failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,25 @@
+import chalk from "chalk";
+import ora from "ora";
+import { rebuildDeploymentIndex, useTenant } from "../services/minio";
+
+interface ReindexOptions {
+  tenant?: string;
+}
+
+export async function reindex(options: ReindexOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    spinner.start("Rebuilding deployment index...");
+    const index = await rebuildDeploymentIndex();
+    const count = Object.keys(index.workflows).length;
+    spinner.succeed(`Indexed ${count} workflow(s)`);
+    console.log("");
+  } catch (error) {
+    spinner.fail("Reindex failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
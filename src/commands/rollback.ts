@@ -1,71 +1,100 @@
 import chalk from "chalk";
 import ora from "ora";
-import { listVersions, getLatestVersion, setLatestVersion, getMetadata } from "../services/minio";
+import {
+  listVersions,
+  getChannelVersion,
+  setChannelVersion,
+  getMetadata,
+  useTenant,
+  validateChannelName,
+  DEFAULT_CHANNEL,
+} from "../services/minio";
+import { withWorkflowLock } from "../services/lock";
 
-export async function rollback(workflowName: string, targetVersion?: string): Promise<void> {
+interface RollbackOptions {
+  version?: string;
+  channel?: string;
+  tenant?: string;
+}
+
+export async function rollback(workflowName: string, options: RollbackOptions): Promise<void> {
   const spinner = ora();
+  const targetVersion = options.version;
+  const channel = options.channel || DEFAULT_CHANNEL;
 
   try {
-    // Get available versions
-    spinner.start("Fetching versions...");
-    const versions = await listVersions(workflowName);
-    const currentLatest = await getLatestVersion(workflowName);
-    spinner.stop();
+    useTenant(options.tenant);
 
-    if (versions.length === 0) {
-      console.log(chalk.yellow(`No versions found for workflow: ${workflowName}`));
-      return;
+    if (channel !== DEFAULT_CHANNEL) {
+      validateChannelName(channel);
     }
 
-    if (versions.length === 1) {
-      console.log(chalk.yellow("Only one version exists, cannot rollback."));
-      return;
-    }
+    await withWorkflowLock(workflowName, "rollback", async () => {
+      // Get available versions
+      spinner.start("Fetching versions...");
+      const versions = await listVersions(workflowName);
+      const currentVersion = await getChannelVersion(workflowName, channel);
+      spinner.stop();
 
-    // Determine target version
-    let newVersion: string;
+      if (versions.length === 0) {
+        console.log(chalk.yellow(`No versions found for workflow: ${workflowName}`));
+        return;
+      }
 
-    if (targetVersion) {
-      if (!versions.includes(targetVersion)) {
-        console.log(chalk.red(`Version ${targetVersion} not found.`));
-        console.log(`Available versions: ${versions.join(", ")}`);
+      if (versions.length === 1) {
+        console.log(chalk.yellow("Only one version exists, cannot rollback."));
         return;
       }
-      newVersion = targetVersion;
-    } else {
-      // Find the previous version
-      const currentIndex = versions.indexOf(currentLatest || "");
-      if (currentIndex === -1 || currentIndex === versions.length - 1) {
-        newVersion = versions[1]; // Second newest
+
+      // Determine target version
+      let newVersion: string;
+
+      if (targetVersion) {
+        if (!versions.includes(targetVersion)) {
+          console.log(chalk.red(`Version ${targetVersion} not found.`));
+          console.log(`Available versions: ${versions.join(", ")}`);
+          return;
+        }
+        newVersion = targetVersion;
       } else {
-        newVersion = versions[currentIndex + 1];
+        // Versions are sorted newest first, so the previous one is the next older version
+        const currentIndex = versions.indexOf(currentVersion || "");
+        if (currentIndex === -1) {
+          newVersion = versions[0];
+        } else if (currentIndex === versions.length - 1) {
+          console.log(chalk.yellow(`Version ${currentVersion} is the oldest version, nothing to roll back to.`));
+          return;
+        } else {
+          newVersion = versions[currentIndex + 1];
+        }
       }
-    }
 
-    if (newVersion === currentLatest) {
-      console.log(chalk.yellow(`Version ${newVersion} is already the latest.`));
-      return;
-    }
+      if (newVersion === currentVersion) {
+        console.log(chalk.yellow(`Version ${newVersion} is already the ${channel} version.`));
+        return;
+      }
 
-    // Perform rollback
-    spinner.start(`Rolling back to version ${newVersion}...`);
-    await setLatestVersion(workflowName, newVersion);
-    spinner.succeed("Rollback complete");
+      // Perform rollback
+      spinner.start(`Rolling back ${channel} to version ${newVersion}...`);
+      await setChannelVersion(workflowName, channel, newVersion);
+      spinner.succeed("Rollback complete");
 
-    // Get metadata for the new version
-    const metadata = await getMetadata(workflowName, newVersion);
+      // Get metadata for the new version
+      const metadata = await getMetadata(workflowName, newVersion);
 
-    console.log("");
-    console.log(chalk.green("Rollback successful!"));
-    console.log("");
-    console.log(chalk.bold("Details:"));
-    console.log(`  Workflow:     ${chalk.cyan(workflowName)}`);
-    console.log(`  Previous:     ${chalk.gray(currentLatest)}`);
-    console.log(`  Current:      ${chalk.cyan(newVersion)}`);
-    if (metadata) {
-      console.log(`  Deployed at:  ${new Date(metadata.deployedAt).toLocaleString()}`);
-    }
-    console.log("");
+      console.log("");
+      console.log(chalk.green("Rollback successful!"));
+      console.log("");
+      console.log(chalk.bold("Details:"));
+      console.log(`  Workflow:     ${chalk.cyan(workflowName)}`);
+      console.log(`  Channel:      ${chalk.cyan(channel)}`);
+      console.log(`  Previous:     ${chalk.gray(currentVersion)}`);
+      console.log(`  Current:      ${chalk.cyan(newVersion)}`);
+      if (metadata) {
+        console.log(`  Deployed at:  ${new Date(metadata.deployedAt).toLocaleString()}`);
+      }
+      console.log("");
+    });
   } catch (error) {
     spinner.fail("Rollback failed");
     console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
@@ -2,6 +2,11 @@ import chalk from "chalk";
 import * as fs from "fs";
 import * as path from "path";
 import { Client, Connection } from "@temporalio/client";
+import { getSigningConfig } from "../config";
+import { getBundle, getLatestVersion, getMetadata, getSignature, getTrafficSplit, isStorageAvailable } from "../services/minio";
+import { verifyBundleSignature, SignatureCheck } from "../services/signing";
+import { checkWorkflowReferences, loadWorkflowConfig } from "../services/packager";
+import { WorkflowConfig } from "../types";
 
 interface RunOptions {
   input?: string;
@@ -45,64 +50,43 @@ function generateWorkflowId(workflowName: string): string {
   return `${workflowName}-${timestamp}-${random}`;
 }
 
-interface WorkflowConfig {
-  name: string;
-  namespace?: string;
-  taskQueue: string;
-  trigger?: {
-    type: string;
-    config?: Record<string, unknown>;
-  };
-}
-
-async function loadWorkflowConfig(workflowDir: string): Promise<WorkflowConfig> {
-  const configTsPath = path.join(workflowDir, "config.ts");
-  const configJsPath = path.join(workflowDir, "config.js");
-
-  let configPath: string;
-
-  if (fs.existsSync(configJsPath)) {
-    configPath = configJsPath;
-  } else if (fs.existsSync(configTsPath)) {
-    // For TypeScript, we need to transpile it first or use ts-node
-    // For simplicity, we'll read and parse it manually
-    const content = fs.readFileSync(configTsPath, "utf-8");
-
-    // Extract the config object using regex
-    const configMatch = content.match(/export\s+const\s+\w+Config\s*=\s*(\{[\s\S]*?\});?\s*$/m);
+// Pick the version for a new execution: weighted by the traffic split when one
+// exists, otherwise latest. Null when the workflow has never been deployed.
+async function selectVersion(workflowName: string): Promise<{ version: string | null; split: boolean }> {
+  const split = await getTrafficSplit(workflowName);
+  const entries = Object.entries(split?.weights || {}).filter(([, weight]) => weight > 0);
 
-    if (!configMatch) {
-      throw new Error("Could not parse config.ts - make sure it exports a config object");
-    }
-
-    // Parse the config - this is a simplified parser
-    const configStr = configMatch[1]
-      .replace(/as\s+const/g, "") // Remove 'as const'
-      .replace(/\/\*[\s\S]*?\*\//g, "") // Remove block comments
-      .replace(/\/\/.*/g, "") // Remove line comments
-      .replace(/,(\s*[}\]])/g, "$1"); // Remove trailing commas
+  if (entries.length === 0) {
+    return { version: await getLatestVersion(workflowName), split: false };
+  }
 
-    try {
-      // Use Function constructor to evaluate the object literal
-      const evalFn = new Function(`return ${configStr}`);
-      return evalFn();
-    } catch (e: any) {
-      throw new Error(`Failed to parse config.ts: ${e.message}`);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let pick = Math.random() * total;
+  for (const [version, weight] of entries) {
+    pick -= weight;
+    if (pick < 0) {
+      return { version, split: true };
     }
-  } else {
-    throw new Error("No config.ts or config.js found in workflow directory");
   }
+  return { version: entries[entries.length - 1][0], split: true };
+}
 
-  // For JS files, require them directly
-  const config = require(configPath);
+// Check the signature of the version the worker will execute
+async function verifyDeployedSignature(workflowName: string, version: string | null): Promise<SignatureCheck> {
+  if (!version) {
+    return { status: "unsigned", message: `No deployed version of ${workflowName}` };
+  }
 
-  // Find the exported config (it should end with 'Config')
-  const configKey = Object.keys(config).find((key) => key.endsWith("Config"));
-  if (!configKey) {
-    throw new Error("No config export found in config file");
+  const metadata = await getMetadata(workflowName, version);
+  if (!metadata) {
+    return { status: "unsigned", message: `No metadata found for ${workflowName}@${version}` };
   }
 
-  return config[configKey];
+  return verifyBundleSignature(metadata, await getSignature(workflowName, version), {
+    name: workflowName,
+    version,
+    bundle: await getBundle(workflowName, version),
+  });
 }
 
 export async function run(workflowPath: string, options: RunOptions): Promise<void> {
@@ -114,14 +98,6 @@ export async function run(workflowPath: string, options: RunOptions): Promise<vo
     process.exit(1);
   }
 
-  const configPath = path.join(absolutePath, "config.ts");
-  const configJsPath = path.join(absolutePath, "config.js");
-
-  if (!fs.existsSync(configPath) && !fs.existsSync(configJsPath)) {
-    console.error(chalk.red("\nError: config.ts or config.js not found in workflow directory\n"));
-    process.exit(1);
-  }
-
   // Load workflow config
   let workflowConfig: WorkflowConfig;
   try {
@@ -131,6 +107,48 @@ export async function run(workflowPath: string, options: RunOptions): Promise<vo
     process.exit(1);
   }
 
+  // Catch a renamed workflow function or activity before Temporal does
+  const problems = checkWorkflowReferences(absolutePath, workflowConfig.name);
+  if (problems.length > 0) {
+    console.error(chalk.red("\nError: Workflow code does not match config.ts:"));
+    problems.forEach((problem) => console.error(chalk.red(`  - ${problem}`)));
+    console.error("");
+    process.exit(1);
+  }
+
+  // Starting a workflow only needs Temporal. Deployed versions are read only when
+  // storage is configured and the user is logged in.
+  const storageAvailable = await isStorageAvailable();
+
+  // Choose the deployed version this execution runs, following the traffic split
+  let selected: { version: string | null; split: boolean } = { version: null, split: false };
+  if (storageAvailable) {
+    try {
+      selected = await selectVersion(workflowConfig.name);
+    } catch (error: any) {
+      console.log(chalk.yellow(`\nCould not read deployed versions, starting without a version: ${error.message}`));
+    }
+  }
+
+  // Refuse to start a workflow whose deployed bundle is not signed by a trusted key
+  if (getSigningConfig().requireSignatures) {
+    if (!storageAvailable) {
+      console.error(chalk.red("\nError: Signatures are required, but deployed versions cannot be read."));
+      console.error(chalk.gray("  Log in with 'workflow-cli login' and configure storage, or disable requireSignatures.\n"));
+      process.exit(1);
+    }
+    try {
+      const check = await verifyDeployedSignature(workflowConfig.name, selected.version);
+      if (check.status !== "valid") {
+        console.error(chalk.red(`\nError: Signature check failed: ${check.message}\n`));
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(chalk.red(`\nError verifying signature: ${error.message}\n`));
+      process.exit(1);
+    }
+  }
+
   // Parse input
   let input: any = {};
 
@@ -165,6 +183,9 @@ export async function run(workflowPath: string, options: RunOptions): Promise<vo
   console.log(chalk.gray(`  Workflow:        ${workflowConfig.name}`));
   console.log(chalk.gray(`  Task Queue:      ${workflowConfig.taskQueue}`));
   console.log(chalk.gray(`  Workflow ID:     ${workflowId}`));
+  if (selected.version) {
+    console.log(chalk.gray(`  Version:         ${selected.version}${selected.split ? " (traffic split)" : ""}`));
+  }
   console.log("");
 
   try {
@@ -187,6 +208,8 @@ export async function run(workflowPath: string, options: RunOptions): Promise<vo
       taskQueue: workflowConfig.taskQueue,
       workflowId,
       args: [input],
+      // Workers read the version to execute from the memo
+      ...(selected.version ? { memo: { workflowVersion: selected.version } } : {}),
     });
 
     console.log(chalk.green(`\n✔ Workflow started successfully!\n`));
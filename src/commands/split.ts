@@ -0,0 +1,91 @@
+import chalk from "chalk";
+import ora from "ora";
+import { deleteTrafficSplit, getMetadata, getTrafficSplit, setTrafficSplit, useTenant } from "../services/minio";
+import { getDeployer } from "../services/auth";
+import { withWorkflowLock } from "../services/lock";
+
+interface SplitOptions {
+  version: string[];
+  clear?: boolean;
+  tenant?: string;
+}
+
+// Parse repeated --version <version>=<weight> options into a weight per version
+function parseWeights(entries: string[]): Record<string, number> {
+  const weights: Record<string, number> = {};
+
+  for (const entry of entries) {
+    const separator = entry.lastIndexOf("=");
+    const version = entry.substring(0, separator).trim();
+    const weight = entry.substring(separator + 1).trim();
+
+    if (separator <= 0 || !/^\d+$/.test(weight)) {
+      throw new Error(`Invalid split "${entry}", expected <version>=<weight> with a whole-number weight`);
+    }
+    if (version in weights) {
+      throw new Error(`Version ${version} is listed more than once`);
+    }
+    weights[version] = Number(weight);
+  }
+
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  if (total !== 100) {
+    throw new Error(`Weights must add up to 100, got ${total}`);
+  }
+
+  return weights;
+}
+
+export async function split(workflowName: string, options: SplitOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    if (options.clear) {
+      spinner.start(`Clearing traffic split of ${workflowName}...`);
+      await withWorkflowLock(workflowName, "split", () => deleteTrafficSplit(workflowName));
+      spinner.succeed(`Traffic split cleared, new executions use the latest version`);
+      return;
+    }
+
+    if (options.version.length === 0) {
+      throw new Error("Specify at least one --version <version>=<weight>, or --clear");
+    }
+
+    const weights = parseWeights(options.version);
+
+    spinner.start("Checking versions...");
+    for (const version of Object.keys(weights)) {
+      if (!(await getMetadata(workflowName, version))) {
+        spinner.fail(`Version not found: ${workflowName}@${version}`);
+        process.exit(1);
+      }
+    }
+
+    spinner.text = "Saving traffic split...";
+    const previous = await withWorkflowLock(workflowName, "split", async () => {
+      const current = await getTrafficSplit(workflowName);
+      await setTrafficSplit(workflowName, {
+        weights,
+        updatedAt: new Date().toISOString(),
+        updatedBy: getDeployer(),
+      });
+      return current;
+    });
+    spinner.succeed("Traffic split updated");
+
+    console.log("");
+    console.log(chalk.bold("Traffic Split:"));
+    for (const [version, weight] of Object.entries(weights)) {
+      const before = previous?.weights[version];
+      const change = before !== undefined && before !== weight ? chalk.gray(` (was ${before}%)`) : "";
+      console.log(`  ${chalk.cyan(version.padEnd(24))} ${String(weight).padStart(3)}%${change}`);
+    }
+    console.log("");
+  } catch (error) {
+    spinner.fail("Split failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,63 @@
+import chalk from "chalk";
+import ora from "ora";
+import {
+  getChannelVersion,
+  getMetadata,
+  setChannelVersion,
+  useTenant,
+  validateChannelName,
+  DEFAULT_CHANNEL,
+} from "../services/minio";
+import { withWorkflowLock } from "../services/lock";
+
+interface TagOptions {
+  tenant?: string;
+}
+
+export async function tag(workflowName: string, version: string, channel: string, options: TagOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    if (channel !== DEFAULT_CHANNEL) {
+      validateChannelName(channel);
+    }
+
+    spinner.start(`Checking ${workflowName}@${version}...`);
+    const metadata = await getMetadata(workflowName, version);
+
+    if (!metadata) {
+      spinner.fail(`Version not found: ${workflowName}@${version}`);
+      process.exit(1);
+    }
+
+    const previous = await withWorkflowLock(workflowName, "tag", async () => {
+      const current = await getChannelVersion(workflowName, channel);
+      if (current !== version) {
+        spinner.text = `Moving ${channel} to ${version}...`;
+        await setChannelVersion(workflowName, channel, version);
+      }
+      return current;
+    });
+
+    if (previous === version) {
+      spinner.stop();
+      console.log(chalk.yellow(`Channel ${channel} already points at ${version}.`));
+      return;
+    }
+    spinner.succeed(`Channel ${channel} updated`);
+
+    console.log("");
+    console.log(chalk.bold("Details:"));
+    console.log(`  Workflow:  ${chalk.cyan(workflowName)}`);
+    console.log(`  Channel:   ${chalk.cyan(channel)}`);
+    console.log(`  Previous:  ${chalk.gray(previous || "none")}`);
+    console.log(`  Current:   ${chalk.green(version)}`);
+    console.log("");
+  } catch (error) {
+    spinner.fail("Tag failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
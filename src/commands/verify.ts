@@ -0,0 +1,85 @@
+import chalk from "chalk";
+import ora from "ora";
+import { getLatestVersion, getMetadata, getBundle, getSignature, listVersions, useTenant } from "../services/minio";
+import { calculateBufferChecksum } from "../services/packager";
+import { verifyBundleSignature, loadTrustedKeys } from "../services/signing";
+
+interface VerifyOptions {
+  version?: string;
+  allVersions?: boolean;
+  tenant?: string;
+}
+
+export async function verify(workflowName: string, options: VerifyOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    useTenant(options.tenant);
+
+    spinner.start("Fetching versions...");
+    const trustedKeys = loadTrustedKeys();
+    let versions: string[];
+
+    if (options.allVersions) {
+      versions = await listVersions(workflowName);
+    } else {
+      const version = options.version || (await getLatestVersion(workflowName));
+      versions = version ? [version] : [];
+    }
+    spinner.stop();
+
+    if (versions.length === 0) {
+      console.log(chalk.yellow(`No versions found for workflow: ${workflowName}`));
+      return;
+    }
+
+    if (Object.keys(trustedKeys).length === 0) {
+      console.log(chalk.yellow("No trusted keys configured. Add one with 'workflow-cli keys trust <keyId> <file>'.\n"));
+    }
+
+    let failed = 0;
+
+    for (const version of versions) {
+      spinner.start(`Verifying ${workflowName}@${version}...`);
+
+      const metadata = await getMetadata(workflowName, version);
+      if (!metadata) {
+        failed++;
+        spinner.fail(`${version}: metadata.json is missing`);
+        continue;
+      }
+
+      const bundle = await getBundle(workflowName, version);
+      if (!bundle || calculateBufferChecksum(bundle) !== metadata.checksum) {
+        failed++;
+        spinner.fail(`${version}: ${bundle ? "bundle does not match its checksum" : "bundle.zip is missing"}`);
+        continue;
+      }
+
+      const check = verifyBundleSignature(
+        metadata,
+        await getSignature(workflowName, version),
+        { name: workflowName, version, bundle },
+        trustedKeys
+      );
+      if (check.status !== "valid") {
+        failed++;
+        spinner.fail(`${version}: ${check.message}`);
+        continue;
+      }
+
+      spinner.succeed(`${version}: checksum matches, ${check.message.toLowerCase()}`);
+    }
+
+    console.log("");
+    if (failed > 0) {
+      console.log(chalk.red(`${failed} of ${versions.length} version(s) failed verification.\n`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`All ${versions.length} version(s) verified.\n`));
+  } catch (error) {
+    spinner.fail("Verification failed");
+    console.error(chalk.red(`\nError: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  }
+}
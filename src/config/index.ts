@@ -1,6 +1,6 @@
 import { config } from "dotenv";
 import { CLIConfig } from "../types";
-import { getMinioConfig, getApiUrl } from "../commands/config";
+import { getMinioConfig, getApiUrl, getStorageConfig, getSigningConfig } from "../commands/config";
 
 // Load .env file if it exists (for local development)
 config();
@@ -27,4 +27,4 @@ export function getConfig(): CLIConfig {
   };
 }
 
-export { getApiUrl };
+export { getApiUrl, getMinioConfig, getStorageConfig, getSigningConfig };
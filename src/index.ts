@@ -1,8 +1,10 @@
 #!/usr/bin/env node
 
 import { Command } from "commander";
-import { deploy, list, rollback, deleteWorkflow, info, login, logout, whoami, init, run, signal, query, cancel, terminate, status } from "./commands";
+import { deploy, build, lint, list, rollback, tag, split, deleteWorkflow, info, pull, migrate, prune, gc, reindex, verify, promote, exportWorkflow, importWorkflow, diffVersions, login, logout, whoami, init, run, signal, query, cancel, terminate, status } from "./commands";
 import { configSetup, configShow, configSet } from "./commands/config";
+import { keysGenerate, keysTrust, keysList } from "./commands/keys";
+import { lockStatus, lockBreak } from "./commands/lock";
 import { readFileSync } from "fs";
 import { join } from "path";
 
@@ -11,10 +13,17 @@ const packageJson = JSON.parse(readFileSync(join(__dirname, "..", "package.json"
 
 const program = new Command();
 
+// Accumulate a repeatable option into an array
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 program
   .name("workflow-cli")
   .description("CLI for deploying Temporal workflows to MinIO storage")
-  .version(packageJson.version);
+  .version(packageJson.version)
+  // Leave options after a subcommand to the subcommand, so its --version is not the program's
+  .enablePositionalOptions();
 
 // Config command group
 const configCmd = program
@@ -42,6 +51,33 @@ configCmd
     await configSet(key, value);
   });
 
+// Keys command group
+const keysCmd = program
+  .command("keys")
+  .description("Manage bundle signing keys");
+
+keysCmd
+  .command("generate <keyId>")
+  .description("Generate an Ed25519 signing key and use it for deploys")
+  .option("-f, --force", "Replace an existing key with the same ID")
+  .action(async (keyId, options) => {
+    await keysGenerate(keyId, { force: options.force });
+  });
+
+keysCmd
+  .command("trust <keyId> <publicKeyFile>")
+  .description("Add a public key to the trusted keys list")
+  .action(async (keyId, publicKeyFile) => {
+    await keysTrust(keyId, publicKeyFile);
+  });
+
+keysCmd
+  .command("list")
+  .description("Show the signing key and trusted keys")
+  .action(async () => {
+    await keysList();
+  });
+
 // Init command
 program
   .command("init")
@@ -91,18 +127,53 @@ program
 // Deploy command
 program
   .command("deploy <path>")
-  .description("Deploy a workflow from a local directory")
+  .description("Deploy a workflow from a local directory, or all workflows under it with --all")
   .option("-v, --version <version>", "Specify version (default: auto-generated timestamp)")
-  .option("-f, --force", "Force overwrite if version exists")
+  .option("-f, --force", "Deploy even if the version exists or nothing changed")
   .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .option("--list-files", "Show the files that would be bundled without deploying")
+  .option("--skip-build", "Bundle the sources without type-checking and compiling")
+  .option("--skip-lint", "Deploy even if the determinism linter reports issues")
+  .option("-b, --bump <level>", "Bump the highest semantic version: patch, minor or major")
+  .option("-c, --channel <channel>", "Point this channel at the new version instead of latest")
+  .option("-m, --message <message>", "Release note recorded with the version")
+  .option("--require-clean", "Refuse to deploy from a git tree with uncommitted changes")
+  .option("--all", "Deploy every changed workflow under <path>, or listed in its workflows.json")
+  .option("--concurrency <n>", "Workflows deployed at the same time with --all (default: 4)")
   .action(async (path, options) => {
     await deploy(path, {
       version: options.version,
       force: options.force,
       tenant: options.tenant,
+      listFiles: options.listFiles,
+      skipBuild: options.skipBuild,
+      skipLint: options.skipLint,
+      bump: options.bump,
+      channel: options.channel,
+      message: options.message,
+      requireClean: options.requireClean,
+      all: options.all,
+      concurrency: options.concurrency,
     });
   });
 
+// Build command - type-check and compile without deploying
+program
+  .command("build <path>")
+  .description("Type-check and compile a workflow with Temporal's bundler")
+  .option("-o, --out <file>", "Output file (default: <path>/dist/workflow-bundle.js)")
+  .action(async (path, options) => {
+    await build(path, { out: options.out });
+  });
+
+// Lint command - report non-deterministic workflow code
+program
+  .command("lint <path>")
+  .description("Check workflow code for non-deterministic calls")
+  .action(async (path) => {
+    await lint(path);
+  });
+
 // List command
 program
   .command("list")
@@ -110,10 +181,12 @@ program
   .description("List all deployed workflows")
   .option("-n, --namespace <namespace>", "Filter by namespace")
   .option("--versions", "Show all versions for each workflow")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
   .action(async (options) => {
     await list({
       namespace: options.namespace,
       showVersions: options.versions,
+      tenant: options.tenant,
     });
   });
 
@@ -122,8 +195,104 @@ program
   .command("info <workflow>")
   .description("Show detailed information about a workflow")
   .option("-v, --version <version>", "Show info for specific version (default: latest)")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (workflow, options) => {
+    await info(workflow, {
+      version: options.version,
+      tenant: options.tenant,
+    });
+  });
+
+// Pull command
+program
+  .command("pull <workflow>")
+  .description("Download, verify and extract a deployed workflow version")
+  .option("-v, --version <version>", "Version to pull (default: latest)")
+  .option("-o, --out <dir>", "Output directory (default: ./<workflow>-<version>)")
+  .option("-f, --force", "Extract into a non-empty output directory")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (workflow, options) => {
+    await pull(workflow, {
+      version: options.version,
+      out: options.out,
+      force: options.force,
+      tenant: options.tenant,
+    });
+  });
+
+// Diff command - compare two deployed versions
+program
+  .command("diff <workflow> <versionA> <versionB>")
+  .description("Show what changed between two deployed versions")
+  .option("--no-patch", "List changed files without unified diffs")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (workflow, versionA, versionB, options) => {
+    await diffVersions(workflow, versionA, versionB, {
+      patch: options.patch,
+      tenant: options.tenant,
+    });
+  });
+
+// Verify command
+program
+  .command("verify <workflow>")
+  .description("Verify a version's checksum and signature against the trusted keys")
+  .option("-v, --version <version>", "Version to verify (default: latest)")
+  .option("--all-versions", "Verify every version")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
   .action(async (workflow, options) => {
-    await info(workflow, options.version);
+    await verify(workflow, {
+      version: options.version,
+      allVersions: options.allVersions,
+      tenant: options.tenant,
+    });
+  });
+
+// Promote command - copy a version between environments
+program
+  .command("promote <workflow>")
+  .description("Copy a deployed version unchanged from one environment to another")
+  .requiredOption("-v, --version <version>", "Version to promote")
+  .requiredOption("--from <profile|bucket>", "Source profile or bucket")
+  .requiredOption("--to <profile|bucket>", "Target profile or bucket")
+  .option("-f, --force", "Overwrite the version if it already exists in the target")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (workflow, options) => {
+    await promote(workflow, {
+      version: options.version,
+      from: options.from,
+      to: options.to,
+      force: options.force,
+      tenant: options.tenant,
+    });
+  });
+
+// Export command - back up a workflow's full version history
+program
+  .command("export <workflow>")
+  .description("Export every version of a workflow to a tar archive")
+  .option("-o, --out <file>", "Output archive (default: ./<workflow>.tar)")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (workflow, options) => {
+    await exportWorkflow(workflow, {
+      out: options.out,
+      tenant: options.tenant,
+    });
+  });
+
+// Import command - restore an exported archive
+program
+  .command("import <archive>")
+  .description("Restore a workflow from an export archive")
+  .option("--rename <name>", "Restore under a different workflow name")
+  .option("-f, --force", "Overwrite an existing workflow with the same name")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (archive, options) => {
+    await importWorkflow(archive, {
+      rename: options.rename,
+      force: options.force,
+      tenant: options.tenant,
+    });
   });
 
 // Rollback command
@@ -131,8 +300,60 @@ program
   .command("rollback <workflow>")
   .description("Rollback a workflow to a previous version")
   .option("-v, --version <version>", "Target version to rollback to (default: previous version)")
+  .option("-c, --channel <channel>", "Channel to roll back (default: latest)")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (workflow, options) => {
+    await rollback(workflow, {
+      version: options.version,
+      channel: options.channel,
+      tenant: options.tenant,
+    });
+  });
+
+// Tag command - point a release channel at a version
+program
+  .command("tag <workflow> <version> <channel>")
+  .description("Point a channel (e.g. stable, canary) at a version")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (workflow, version, channel, options) => {
+    await tag(workflow, version, channel, { tenant: options.tenant });
+  });
+
+// Split command - weight new executions across versions
+program
+  .command("split <workflow>")
+  .description("Split new executions across versions by weight")
+  .option("-v, --version <version=weight>", "Version and weight in percent, repeat for each version", collect, [])
+  .option("--clear", "Remove the split and send all executions to latest")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (workflow, options) => {
+    await split(workflow, {
+      version: options.version,
+      clear: options.clear,
+      tenant: options.tenant,
+    });
+  });
+
+// Lock command group - inspect and clear deploy locks
+const lockCmd = program
+  .command("lock")
+  .description("Inspect and break workflow deploy locks");
+
+lockCmd
+  .command("status [workflow]")
+  .description("Show who holds the lock of a workflow, or all locks")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (workflow, options) => {
+    await lockStatus(workflow, { tenant: options.tenant });
+  });
+
+lockCmd
+  .command("break <workflow>")
+  .description("Remove a stale lock")
+  .option("-f, --force", "Remove the lock even if it has not expired")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
   .action(async (workflow, options) => {
-    await rollback(workflow, options.version);
+    await lockBreak(workflow, { force: options.force, tenant: options.tenant });
   });
 
 // Delete command
@@ -142,10 +363,70 @@ program
   .description("Delete a workflow or specific version")
   .option("-v, --version <version>", "Delete specific version")
   .option("--all", "Delete all versions")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
   .action(async (workflow, options) => {
     await deleteWorkflow(workflow, {
       version: options.version,
       all: options.all,
+      tenant: options.tenant,
+    });
+  });
+
+// Prune command
+program
+  .command("prune [workflow]")
+  .description("Remove old versions according to a retention policy")
+  .requiredOption("-k, --keep <n>", "Number of most recent versions to keep")
+  .option("--older-than <duration>", "Only remove versions older than this (e.g. 30d, 12h, 2w)")
+  .option("--all", "Prune every workflow")
+  .option("--dry-run", "Show what would be removed without deleting anything")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (workflow, options) => {
+    await prune(workflow, {
+      all: options.all,
+      keep: options.keep,
+      olderThan: options.olderThan,
+      dryRun: options.dryRun,
+      tenant: options.tenant,
+    });
+  });
+
+// GC command - find and repair broken objects in the bucket
+program
+  .command("gc")
+  .description("Scan the bucket for dangling pointers, incomplete versions and checksum mismatches")
+  .option("--fix", "Repair the problems found")
+  .option("--skip-checksums", "Do not download bundles to verify checksums")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (options) => {
+    await gc({
+      fix: options.fix,
+      skipChecksums: options.skipChecksums,
+      tenant: options.tenant,
+    });
+  });
+
+// Reindex command - rebuild the deployment index
+program
+  .command("reindex")
+  .description("Rebuild the deployment index from the objects in the bucket")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (options) => {
+    await reindex({ tenant: options.tenant });
+  });
+
+// Migrate command - move unprefixed objects into the tenant layout
+program
+  .command("migrate [workflows...]")
+  .description("Move workflows stored without a tenant prefix under the tenant's prefix")
+  .option("--all", "Migrate every unprefixed workflow")
+  .option("--dry-run", "Show what would be moved without changing anything")
+  .option("-t, --tenant <tenantId>", "Target tenant ID (master admin only)")
+  .action(async (workflows, options) => {
+    await migrate(workflows, {
+      all: options.all,
+      dryRun: options.dryRun,
+      tenant: options.tenant,
     });
   });
 
@@ -0,0 +1,81 @@
+// Validation for the standard five-field cron syntax used by schedule triggers:
+// minute hour day-of-month month day-of-week
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, aliases: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"] },
+  // 0 and 7 are both Sunday
+  { name: "day of week", min: 0, max: 7, aliases: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] },
+];
+
+const MACROS = ["@yearly", "@annually", "@monthly", "@weekly", "@daily", "@midnight", "@hourly"];
+
+function parseValue(value: string, field: CronField): number | null {
+  const aliasIndex = field.aliases?.indexOf(value.toUpperCase()) ?? -1;
+  if (aliasIndex >= 0) {
+    return aliasIndex + (field.name === "month" ? 1 : 0);
+  }
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+  const number = Number(value);
+  return number >= field.min && number <= field.max ? number : null;
+}
+
+// Returns a description of the first problem, or null when the field is valid
+function checkField(value: string, field: CronField): string | null {
+  for (const part of value.split(",")) {
+    const [range, step, ...extra] = part.split("/");
+
+    if (extra.length > 0 || (step !== undefined && !/^[1-9]\d*$/.test(step))) {
+      return `invalid step in ${field.name} "${part}"`;
+    }
+
+    if (range === "*") {
+      continue;
+    }
+
+    const [start, end, ...rest] = range.split("-");
+    const from = parseValue(start, field);
+    const to = end === undefined ? from : parseValue(end, field);
+
+    if (rest.length > 0 || from === null || to === null) {
+      return `${field.name} "${part}" must be between ${field.min} and ${field.max}`;
+    }
+    if (from > to) {
+      return `range "${range}" in ${field.name} is reversed`;
+    }
+  }
+  return null;
+}
+
+// Check a cron expression, returns a description of the problem or null when valid
+export function validateCronExpression(expression: string): string | null {
+  const trimmed = expression.trim();
+
+  if (trimmed.startsWith("@")) {
+    return MACROS.includes(trimmed.toLowerCase()) ? null : `unknown macro "${trimmed}"`;
+  }
+
+  const parts = trimmed.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    return `expected ${FIELDS.length} fields (minute hour day-of-month month day-of-week), got ${parts.length}`;
+  }
+
+  for (let i = 0; i < FIELDS.length; i++) {
+    const problem = checkField(parts[i], FIELDS[i]);
+    if (problem) {
+      return problem;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,45 @@
+import { getApiUrl } from "../config";
+import { createLogger } from "../lib/logger";
+
+const logger = createLogger("api");
+
+export interface DeploymentRegistration {
+  name: string;
+  namespace: string;
+  taskQueue: string;
+  version: string;
+  trigger: { type: string; config?: Record<string, unknown> };
+  checksum: string;
+  minioPath: string;
+}
+
+// Register the deployment with the API
+export async function registerDeployment(
+  token: string,
+  data: DeploymentRegistration,
+  tenantOverride?: string,
+  apiUrl: string = getApiUrl()
+): Promise<{ success: boolean; message: string }> {
+  try {
+    // Build URL with tenant query param for master admin
+    let url = `${apiUrl}/workflows/register`;
+    if (tenantOverride) {
+      url += `?tenant=${encodeURIComponent(tenantOverride)}`;
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(data),
+    });
+
+    const result = (await response.json()) as { success: boolean; message: string };
+    return result;
+  } catch (error) {
+    logger.error(error, "Failed to register deployment with API");
+    return { success: false, message: error instanceof Error ? error.message : "API error" };
+  }
+}
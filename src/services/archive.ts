@@ -0,0 +1,165 @@
+import * as fs from "fs";
+import * as tar from "tar-stream";
+import { pipeline } from "stream/promises";
+import { listWorkflowObjects, getWorkflowObject, getLatestVersion, validateChannelName, CHANNELS_DIR } from "./minio";
+import { calculateBufferChecksum } from "./packager";
+
+const MANIFEST_NAME = "manifest.json";
+const OBJECTS_DIR = "objects/";
+
+// Objects a workflow folder holds, relative to the workflow prefix
+const VERSION_OBJECTS = ["bundle.zip", "metadata.json", "signature.json"];
+const POINTER_OBJECTS = ["latest", "split.json"];
+
+// Integrity manifest stored as the first entry of every export archive
+export interface ArchiveManifest {
+  format: "workflow-cli-export";
+  formatVersion: 1;
+  workflowName: string;
+  latest: string | null;
+  exportedAt: string;
+  files: { key: string; size: number; sha256: string }[];
+}
+
+export interface WorkflowArchive {
+  manifest: ArchiveManifest;
+  files: { key: string; data: Buffer }[];
+}
+
+// Write every object of a workflow into a tar archive with an integrity manifest
+export async function exportWorkflowArchive(workflowName: string, outputPath: string): Promise<ArchiveManifest> {
+  const keys = await listWorkflowObjects(workflowName);
+  if (keys.length === 0) {
+    throw new Error(`No objects found for workflow: ${workflowName}`);
+  }
+
+  const files: { key: string; data: Buffer }[] = [];
+  for (const key of keys.sort()) {
+    const data = await getWorkflowObject(workflowName, key);
+    if (data) {
+      files.push({ key, data });
+    }
+  }
+
+  const manifest: ArchiveManifest = {
+    format: "workflow-cli-export",
+    formatVersion: 1,
+    workflowName,
+    latest: await getLatestVersion(workflowName),
+    exportedAt: new Date().toISOString(),
+    files: files.map((file) => ({ key: file.key, size: file.data.length, sha256: calculateBufferChecksum(file.data) })),
+  };
+
+  const pack = tar.pack();
+  const output = fs.createWriteStream(outputPath);
+  const written = pipeline(pack, output);
+
+  pack.entry({ name: MANIFEST_NAME }, JSON.stringify(manifest, null, 2));
+  for (const file of files) {
+    pack.entry({ name: `${OBJECTS_DIR}${file.key}` }, file.data);
+  }
+  pack.finalize();
+
+  await written;
+  return manifest;
+}
+
+function isChannelName(name: string): boolean {
+  try {
+    validateChannelName(name);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Only keys of the workflow folder layout are accepted, so an archive can never
+// write outside the folder of the workflow it is imported as
+function checkArchiveKey(key: string): void {
+  const segments = key.split("/");
+  const unsafe = key.includes("\\") || segments.some((segment) => segment === "" || segment === "." || segment === "..");
+
+  const valid =
+    !unsafe &&
+    (segments.length === 1
+      ? POINTER_OBJECTS.includes(key)
+      : segments.length === 2 &&
+        (segments[0] === CHANNELS_DIR ? isChannelName(segments[1]) : VERSION_OBJECTS.includes(segments[1])));
+
+  if (!valid) {
+    throw new Error(`Archive contains an object outside the workflow layout: ${JSON.stringify(key)}`);
+  }
+}
+
+// Read an export archive and check every object against the manifest
+export async function readWorkflowArchive(archivePath: string): Promise<WorkflowArchive> {
+  const extract = tar.extract();
+  const entries = new Map<string, Buffer>();
+
+  extract.on("entry", (header, stream, next) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk) => chunks.push(chunk as Buffer));
+    stream.on("end", () => {
+      if (header.type === "file") {
+        entries.set(header.name, Buffer.concat(chunks));
+      }
+      next();
+    });
+  });
+
+  await pipeline(fs.createReadStream(archivePath), extract);
+
+  const manifestData = entries.get(MANIFEST_NAME);
+  if (!manifestData) {
+    throw new Error("Archive has no manifest.json");
+  }
+
+  const manifest = JSON.parse(manifestData.toString("utf-8")) as ArchiveManifest;
+  if (manifest.format !== "workflow-cli-export" || manifest.formatVersion !== 1) {
+    throw new Error("Unsupported archive format");
+  }
+
+  const files: { key: string; data: Buffer }[] = [];
+  for (const expected of manifest.files) {
+    checkArchiveKey(expected.key);
+    const data = entries.get(`${OBJECTS_DIR}${expected.key}`);
+    if (!data) {
+      throw new Error(`Archive is missing ${expected.key}`);
+    }
+    if (data.length !== expected.size || calculateBufferChecksum(data) !== expected.sha256) {
+      throw new Error(`Integrity check failed for ${expected.key}`);
+    }
+    files.push({ key: expected.key, data });
+  }
+
+  const unexpected = Array.from(entries.keys()).filter(
+    (name) => name !== MANIFEST_NAME && !manifest.files.some((file) => `${OBJECTS_DIR}${file.key}` === name)
+  );
+  if (unexpected.length > 0) {
+    throw new Error(`Archive contains files not listed in the manifest: ${unexpected.join(", ")}`);
+  }
+
+  return { manifest, files };
+}
+
+// Objects of an archive restored under another workflow name. Metadata is rewritten
+// to the new name; signed versions are refused, their signatures cover the original
+// name and would no longer verify.
+export function renameArchiveFiles(archive: WorkflowArchive, workflowName: string): { key: string; data: Buffer }[] {
+  const signed = archive.files.filter((file) => file.key.endsWith("/signature.json"));
+  if (signed.length > 0) {
+    const versions = signed.map((file) => file.key.substring(0, file.key.lastIndexOf("/")));
+    throw new Error(
+      `Cannot rename signed version(s) ${versions.join(", ")}, their signatures cover the name ${archive.manifest.workflowName}. ` +
+        `Import without --rename, or deploy the workflow again under the new name to sign it.`
+    );
+  }
+
+  return archive.files.map((file) => {
+    if (!file.key.endsWith("/metadata.json")) {
+      return file;
+    }
+    const metadata = JSON.parse(file.data.toString("utf-8"));
+    return { key: file.key, data: Buffer.from(JSON.stringify({ ...metadata, name: workflowName }, null, 2)) };
+  });
+}
@@ -236,6 +236,12 @@ export function getCurrentUser(): UserInfo | null {
   return config?.user || null;
 }
 
+// Get deployer identifier from authenticated user
+export function getDeployer(): string {
+  const user = getCurrentUser();
+  return user?.email || process.env.USER || process.env.USERNAME || "unknown";
+}
+
 // Get current tenant info
 export function getCurrentTenant(): TenantInfo | null {
   const config = getAuthConfig();
@@ -298,3 +304,18 @@ export function getEffectiveTenantId(tenantOverride?: string): string | null {
   const tenant = getCurrentTenant();
   return tenant?.tenantId || null;
 }
+
+// Validate the --tenant flag against the current role, returns an error message when invalid
+export function checkTenantOverride(tenantOverride?: string): string | null {
+  const isMaster = isMasterAdmin();
+
+  if (isMaster && !tenantOverride) {
+    return "Master admin must specify --tenant flag";
+  }
+
+  if (!isMaster && tenantOverride) {
+    return "Only master admin can use --tenant flag";
+  }
+
+  return null;
+}
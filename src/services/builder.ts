@@ -0,0 +1,127 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { WorkflowBuild } from "../types";
+import { calculateBufferChecksum } from "./packager";
+
+// Path of the compiled workflow code inside bundle.zip
+export const BUILD_ARTIFACT = "build/workflow-bundle.js";
+
+export interface TypeCheckDiagnostic {
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export interface CompiledWorkflow {
+  code: string;
+  build: WorkflowBuild;
+}
+
+// Used when the workflow folder has no tsconfig.json, matches the one `init` generates
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  lib: ["lib.es2020.d.ts"],
+  strict: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  forceConsistentCasingInFileNames: true,
+};
+
+function loadCompilerOptions(workflowDir: string): ts.CompilerOptions {
+  const tsconfigPath = path.join(workflowDir, "tsconfig.json");
+
+  if (!fs.existsSync(tsconfigPath)) {
+    return DEFAULT_COMPILER_OPTIONS;
+  }
+
+  const { config, error } = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+  if (error) {
+    throw new Error(`Invalid tsconfig.json: ${ts.flattenDiagnosticMessageText(error.messageText, "\n")}`);
+  }
+
+  return ts.parseJsonConfigFileContent(config, ts.sys, workflowDir, undefined, tsconfigPath).options;
+}
+
+// Type-check workflow.ts and activities.ts, returns the errors found
+export function typeCheckWorkflow(workflowDir: string): TypeCheckDiagnostic[] {
+  const rootNames = ["workflow.ts", "activities.ts"]
+    .map((file) => path.join(workflowDir, file))
+    .filter((file) => fs.existsSync(file));
+
+  if (rootNames.length === 0) {
+    return [];
+  }
+
+  const options = { ...loadCompilerOptions(workflowDir), noEmit: true };
+
+  // Resolve @types and node_modules from the workflow folder, not from where the CLI was started
+  const host = ts.createCompilerHost(options);
+  host.getCurrentDirectory = () => workflowDir;
+
+  const program = ts.createProgram({ rootNames, options, host });
+
+  return ts
+    .getPreEmitDiagnostics(program)
+    .filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error)
+    .map((diagnostic) => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+
+      if (!diagnostic.file || diagnostic.start === undefined) {
+        return { message };
+      }
+
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      return {
+        file: path.relative(workflowDir, diagnostic.file.fileName),
+        line: line + 1,
+        column: character + 1,
+        message,
+      };
+    });
+}
+
+// Bundle the workflow with Temporal's workflow bundler. The bundler rejects
+// imports that are not allowed in the workflow sandbox.
+export async function compileWorkflow(workflowDir: string): Promise<CompiledWorkflow> {
+  const workflowsPath = ["workflow.ts", "workflow.js"]
+    .map((file) => path.join(workflowDir, file))
+    .find((file) => fs.existsSync(file));
+
+  if (!workflowsPath) {
+    throw new Error(`No workflow.ts or workflow.js found in ${workflowDir}`);
+  }
+
+  // Loaded lazily, the worker package pulls in the native Temporal core
+  const { bundleWorkflowCode, DefaultLogger } = await import("@temporalio/worker");
+  const { version: bundlerVersion } = require("@temporalio/worker/package.json");
+
+  const { code } = await bundleWorkflowCode({
+    workflowsPath,
+    logger: new DefaultLogger("WARN"),
+  });
+
+  const content = Buffer.from(code);
+
+  return {
+    code,
+    build: {
+      artifact: BUILD_ARTIFACT,
+      checksum: calculateBufferChecksum(content),
+      size: content.length,
+      bundler: `@temporalio/worker@${bundlerVersion}`,
+      builtAt: new Date().toISOString(),
+    },
+  };
+}
+
+// One line per diagnostic, formatted like tsc output
+export function formatDiagnostic(diagnostic: TypeCheckDiagnostic): string {
+  if (!diagnostic.file) {
+    return diagnostic.message;
+  }
+  return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - ${diagnostic.message}`;
+}
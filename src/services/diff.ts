@@ -0,0 +1,102 @@
+import { createTwoFilesPatch } from "diff";
+import { WorkflowMetadata } from "../types";
+import { readBundleEntries } from "./packager";
+
+export type FileChangeStatus = "added" | "removed" | "modified";
+
+export interface FileChange {
+  path: string;
+  status: FileChangeStatus;
+  binary: boolean;
+  // Unified diff, only set for text files
+  patch?: string;
+}
+
+export interface MetadataChange {
+  field: string;
+  before: string | undefined;
+  after: string | undefined;
+  breaking: boolean;
+}
+
+// Changing any of these stops running workers or triggers from picking up the workflow
+const BREAKING_FIELDS = new Set(["namespace", "taskQueue", "trigger.type"]);
+
+// Treat a file as binary when it contains a NUL byte near the start, like git does
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+function unifiedDiff(filePath: string, before: Buffer, after: Buffer, labelA: string, labelB: string): string {
+  return createTwoFilesPatch(
+    `a/${filePath}`,
+    `b/${filePath}`,
+    before.toString("utf-8"),
+    after.toString("utf-8"),
+    labelA,
+    labelB
+  );
+}
+
+// Compare the files of two bundles, sorted by path
+export function diffBundles(bundleA: Buffer, bundleB: Buffer, labelA = "", labelB = ""): FileChange[] {
+  const filesA = readBundleEntries(bundleA);
+  const filesB = readBundleEntries(bundleB);
+  const paths = [...new Set([...filesA.keys(), ...filesB.keys()])].sort();
+  const changes: FileChange[] = [];
+
+  for (const filePath of paths) {
+    const before = filesA.get(filePath);
+    const after = filesB.get(filePath);
+
+    if (before && after && before.equals(after)) {
+      continue;
+    }
+
+    const status: FileChangeStatus = !before ? "added" : !after ? "removed" : "modified";
+    const binary = (before !== undefined && isBinary(before)) || (after !== undefined && isBinary(after));
+
+    changes.push({
+      path: filePath,
+      status,
+      binary,
+      patch: binary ? undefined : unifiedDiff(filePath, before || Buffer.alloc(0), after || Buffer.alloc(0), labelA, labelB),
+    });
+  }
+
+  return changes;
+}
+
+// Flatten metadata into dotted field names with printable values
+function flattenMetadata(metadata: WorkflowMetadata): Record<string, string> {
+  const fields: Record<string, string> = {};
+
+  const visit = (value: unknown, prefix: string): void => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, prefix ? `${prefix}.${key}` : key);
+      }
+    } else if (value !== undefined) {
+      fields[prefix] = typeof value === "string" ? value : JSON.stringify(value);
+    }
+  };
+
+  visit(metadata, "");
+  return fields;
+}
+
+// Compare the metadata of two versions field by field
+export function diffMetadata(metadataA: WorkflowMetadata, metadataB: WorkflowMetadata): MetadataChange[] {
+  const fieldsA = flattenMetadata(metadataA);
+  const fieldsB = flattenMetadata(metadataB);
+  const fields = [...new Set([...Object.keys(fieldsA), ...Object.keys(fieldsB)])].sort();
+
+  return fields
+    .filter((field) => fieldsA[field] !== fieldsB[field])
+    .map((field) => ({
+      field,
+      before: fieldsA[field],
+      after: fieldsB[field],
+      breaking: BREAKING_FIELDS.has(field),
+    }));
+}
@@ -0,0 +1,72 @@
+import { getStorageConfig, getApiUrl } from "../config";
+import { getProfile, getMinioConfig, ProfileConfig } from "../commands/config";
+import { CLIConfig, StorageDriver } from "../types";
+import { createStorageDriver } from "./storage";
+import { getToken } from "./auth";
+
+// A storage location plus the API that tracks its deployments
+export interface Environment {
+  label: string;
+  storage: StorageDriver;
+  apiUrl: string;
+  // Credential for apiUrl, null when none is configured
+  token: string | null;
+}
+
+// Environment variable holding the API token of a profile, e.g. WORKFLOW_CLI_PROD_TOKEN
+export function profileTokenEnvVar(name: string): string {
+  return `WORKFLOW_CLI_${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_TOKEN`;
+}
+
+// The login token only belongs to the top-level API. A profile with another API
+// needs its own token, from the environment variable or the profile.
+function profileToken(name: string, profile: ProfileConfig, apiUrl: string): string | null {
+  const token = process.env[profileTokenEnvVar(name)] || profile.token;
+  if (token) {
+    return token;
+  }
+  return apiUrl === getApiUrl() ? getToken() : null;
+}
+
+// Merge MinIO overrides over the top-level MinIO settings
+function minioSettings(overrides: ProfileConfig["minio"] = {}): CLIConfig["minio"] {
+  const merged = { ...getMinioConfig(), ...overrides };
+
+  if (!merged.accessKey || !merged.secretKey) {
+    throw new Error("MinIO credentials not configured. Run 'workflow-cli config setup' first.");
+  }
+
+  return {
+    endPoint: merged.endpoint || "localhost",
+    port: merged.port || 9000,
+    useSSL: merged.useSSL || false,
+    accessKey: merged.accessKey,
+    secretKey: merged.secretKey,
+    bucket: merged.bucket || "temporal-workflows",
+  };
+}
+
+// Resolve a --from/--to value: a profile name from the CLI config, otherwise a
+// bucket name on the configured MinIO server (or a directory for the local driver)
+export function resolveEnvironment(name: string): Environment {
+  const profile = getProfile(name);
+  const baseStorage = getStorageConfig();
+
+  if (profile) {
+    const driver = profile.storage?.driver || baseStorage.driver;
+    const storage =
+      driver === "local"
+        ? createStorageDriver({ driver, path: profile.storage?.path || baseStorage.path })
+        : createStorageDriver({ driver, path: baseStorage.path }, minioSettings(profile.minio));
+
+    const apiUrl = profile.apiUrl || getApiUrl();
+    return { label: name, storage, apiUrl, token: profileToken(name, profile, apiUrl) };
+  }
+
+  const storage =
+    baseStorage.driver === "local"
+      ? createStorageDriver({ driver: "local", path: name })
+      : createStorageDriver(baseStorage, minioSettings({ bucket: name }));
+
+  return { label: name, storage, apiUrl: getApiUrl(), token: getToken() };
+}
@@ -0,0 +1,190 @@
+import {
+  listVersions,
+  listVersionObjects,
+  getLatestVersion,
+  getMetadata,
+  getBundle,
+  deleteVersion,
+  deleteLatestVersion,
+  setLatestVersion,
+  listChannels,
+  deleteChannel,
+  getTrafficSplit,
+  deleteTrafficSplit,
+  listStagedUploads,
+  discardStagedWorkflow,
+} from "./minio";
+import { calculateBufferChecksum } from "./packager";
+
+// Staged uploads older than this are considered abandoned
+const STALE_STAGING_MS = 60 * 60 * 1000;
+
+export type GcIssueType =
+  | "dangling-latest"
+  | "dangling-channel"
+  | "dangling-split"
+  | "missing-bundle"
+  | "missing-metadata"
+  | "checksum-mismatch"
+  | "stale-staging";
+
+export interface GcIssue {
+  type: GcIssueType;
+  workflowName: string;
+  version?: string;
+  // Channel the issue refers to (dangling channel pointers)
+  channel?: string;
+  // Storage prefix the issue refers to (staged uploads)
+  prefix?: string;
+  detail: string;
+}
+
+// Issues that make a version unusable, fixed by removing the version
+const BROKEN_VERSION_ISSUES: GcIssueType[] = ["missing-bundle", "missing-metadata", "checksum-mismatch"];
+
+export interface GcScanOptions {
+  // Download every bundle and compare it with the recorded checksum
+  verifyChecksums?: boolean;
+}
+
+// Find problems in the objects of a single workflow
+export async function scanWorkflow(workflowName: string, options: GcScanOptions = {}): Promise<GcIssue[]> {
+  const issues: GcIssue[] = [];
+  const versions = await listVersions(workflowName);
+  const latestVersion = await getLatestVersion(workflowName);
+
+  for (const version of versions) {
+    const objects = await listVersionObjects(workflowName, version);
+
+    if (!objects.includes("bundle.zip")) {
+      issues.push({ type: "missing-bundle", workflowName, version, detail: "bundle.zip is missing" });
+    }
+
+    const metadata = objects.includes("metadata.json") ? await getMetadata(workflowName, version) : null;
+    if (!metadata) {
+      issues.push({
+        type: "missing-metadata",
+        workflowName,
+        version,
+        detail: objects.includes("metadata.json") ? "metadata.json is unreadable" : "metadata.json is missing",
+      });
+      continue;
+    }
+
+    if (options.verifyChecksums && objects.includes("bundle.zip")) {
+      const bundle = await getBundle(workflowName, version);
+      const checksum = bundle ? calculateBufferChecksum(bundle) : null;
+      if (checksum !== metadata.checksum) {
+        issues.push({
+          type: "checksum-mismatch",
+          workflowName,
+          version,
+          detail: `bundle checksum ${checksum?.substring(0, 16)}... does not match ${metadata.checksum.substring(0, 16)}...`,
+        });
+      }
+    }
+  }
+
+  if (latestVersion !== null && !versions.includes(latestVersion)) {
+    issues.push({
+      type: "dangling-latest",
+      workflowName,
+      version: latestVersion,
+      detail: `latest points to ${latestVersion || "(empty)"}, which does not exist`,
+    });
+  }
+
+  for (const [channel, version] of Object.entries(await listChannels(workflowName))) {
+    if (!versions.includes(version)) {
+      issues.push({
+        type: "dangling-channel",
+        workflowName,
+        version,
+        channel,
+        detail: `channel ${channel} points to ${version || "(empty)"}, which does not exist`,
+      });
+    }
+  }
+
+  const split = await getTrafficSplit(workflowName);
+  const missing = split ? Object.keys(split.weights).filter((version) => !versions.includes(version)) : [];
+  if (missing.length > 0) {
+    issues.push({
+      type: "dangling-split",
+      workflowName,
+      detail: `traffic split routes to ${missing.join(", ")}, which ${missing.length === 1 ? "does" : "do"} not exist`,
+    });
+  }
+
+  return issues;
+}
+
+// Find staged uploads that were abandoned by interrupted deploys
+export async function scanStaging(now: Date = new Date()): Promise<GcIssue[]> {
+  const uploads = await listStagedUploads();
+
+  return uploads
+    .filter((upload) => !upload.lastModified || now.getTime() - upload.lastModified.getTime() > STALE_STAGING_MS)
+    .map((upload) => ({
+      type: "stale-staging" as const,
+      workflowName: upload.workflowName,
+      prefix: upload.prefix,
+      detail: `abandoned staged upload ${upload.prefix}`,
+    }));
+}
+
+// Repair the issues found for one workflow. Broken versions are removed and the
+// latest pointer is moved to the newest healthy version, or removed if none is left.
+// Channels pointing at a missing version are removed, and a traffic split routing to
+// one is cleared so executions use latest again.
+export async function fixWorkflowIssues(workflowName: string, issues: GcIssue[]): Promise<string[]> {
+  const actions: string[] = [];
+  const brokenVersions = new Set(
+    issues.filter((issue) => BROKEN_VERSION_ISSUES.includes(issue.type) && issue.version).map((issue) => issue.version as string)
+  );
+
+  for (const version of brokenVersions) {
+    await deleteVersion(workflowName, version);
+    actions.push(`removed version ${version}`);
+  }
+
+  const latestVersion = await getLatestVersion(workflowName);
+  const versions = await listVersions(workflowName);
+
+  if (latestVersion !== null && !versions.includes(latestVersion)) {
+    if (versions.length > 0) {
+      await setLatestVersion(workflowName, versions[0]);
+      actions.push(`moved latest to ${versions[0]}`);
+    } else {
+      await deleteLatestVersion(workflowName);
+      actions.push("removed latest pointer");
+    }
+  }
+
+  for (const [channel, version] of Object.entries(await listChannels(workflowName))) {
+    if (!versions.includes(version)) {
+      await deleteChannel(workflowName, channel);
+      actions.push(`removed channel ${channel}`);
+    }
+  }
+
+  const split = await getTrafficSplit(workflowName);
+  if (split && Object.keys(split.weights).some((version) => !versions.includes(version))) {
+    await deleteTrafficSplit(workflowName);
+    actions.push("cleared traffic split");
+  }
+
+  return actions;
+}
+
+// Remove abandoned staged uploads
+export async function fixStagingIssues(issues: GcIssue[]): Promise<string[]> {
+  const actions: string[] = [];
+
+  for (const issue of issues.filter((item) => item.type === "stale-staging" && item.prefix)) {
+    await discardStagedWorkflow({ stagingPrefix: issue.prefix as string });
+    actions.push(`removed ${issue.prefix}`);
+  }
+
+  return actions;
+}
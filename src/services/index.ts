@@ -1,4 +1,18 @@
 export * from "./minio";
 export * from "./packager";
 export * from "./auth";
-
+export * from "./storage";
+export * from "./retention";
+export * from "./gc";
+export * from "./signing";
+export * from "./api";
+export * from "./environments";
+export * from "./archive";
+export * from "./diff";
+export * from "./secrets";
+export * from "./builder";
+export * from "./linter";
+export * from "./versioning";
+export * from "./provenance";
+export * from "./lock";
+export * from "./workspace";
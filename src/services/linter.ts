@@ -0,0 +1,108 @@
+import * as fs from "fs";
+import * as path from "path";
+import { builtinModules } from "module";
+import * as ts from "typescript";
+
+export type LintRule = "date-now" | "math-random" | "timers" | "node-builtin" | "network-call";
+
+export interface LintIssue {
+  file: string;
+  line: number;
+  column: number;
+  rule: LintRule;
+  message: string;
+  suggestion: string;
+}
+
+const SUGGESTIONS: Record<LintRule, string> = {
+  "date-now": "Pass the time in as workflow input or return it from an activity",
+  "math-random": "Use uuid4() from @temporalio/workflow, or generate the value in an activity",
+  timers: "Use sleep() or condition() from @temporalio/workflow",
+  "node-builtin": "Move the code that needs this module into an activity",
+  "network-call": "Make network calls from an activity and call it through proxyActivities",
+};
+
+const TIMER_FUNCTIONS = new Set(["setTimeout", "setInterval", "setImmediate"]);
+const NETWORK_GLOBALS = new Set(["fetch", "XMLHttpRequest", "WebSocket"]);
+const NETWORK_MODULES = new Set(["axios", "node-fetch", "got", "undici", "superagent", "request", "ws"]);
+
+function isNodeBuiltin(moduleName: string): boolean {
+  return moduleName.startsWith("node:") || builtinModules.includes(moduleName.split("/")[0]);
+}
+
+// Whether a node is `object.property`, e.g. Date.now
+function isPropertyAccess(node: ts.Node, object: string, property: string): boolean {
+  return (
+    ts.isPropertyAccessExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === object &&
+    node.name.text === property
+  );
+}
+
+// Report imports and requires of modules that cannot run in the workflow sandbox
+function checkModule(moduleName: string, report: (rule: LintRule, message: string) => void): void {
+  if (isNodeBuiltin(moduleName)) {
+    report("node-builtin", `Node.js module "${moduleName}" is not available in the workflow sandbox`);
+  } else if (NETWORK_MODULES.has(moduleName)) {
+    report("network-call", `"${moduleName}" performs network I/O, which is not deterministic`);
+  }
+}
+
+// Parse workflow source and report determinism hazards
+export function lintSource(file: string, source: string): LintIssue[] {
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true);
+  const issues: LintIssue[] = [];
+
+  const visit = (node: ts.Node): void => {
+    const report = (rule: LintRule, message: string): void => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      issues.push({ file, line: line + 1, column: character + 1, rule, message, suggestion: SUGGESTIONS[rule] });
+    };
+
+    if (ts.isImportDeclaration(node) && !node.importClause?.isTypeOnly && ts.isStringLiteral(node.moduleSpecifier)) {
+      checkModule(node.moduleSpecifier.text, report);
+    } else if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      const [firstArg] = node.arguments;
+
+      if (isPropertyAccess(callee, "Date", "now")) {
+        report("date-now", "Date.now() reads the wall clock");
+      } else if (isPropertyAccess(callee, "Math", "random")) {
+        report("math-random", "Math.random() is not deterministic");
+      } else if (ts.isIdentifier(callee) && TIMER_FUNCTIONS.has(callee.text)) {
+        report("timers", `${callee.text}() is not durable and does not survive replay`);
+      } else if (ts.isIdentifier(callee) && NETWORK_GLOBALS.has(callee.text)) {
+        report("network-call", `${callee.text}() performs network I/O, which is not deterministic`);
+      } else if (
+        (callee.kind === ts.SyntaxKind.ImportKeyword || (ts.isIdentifier(callee) && callee.text === "require")) &&
+        firstArg &&
+        ts.isStringLiteral(firstArg)
+      ) {
+        checkModule(firstArg.text, report);
+      }
+    } else if (ts.isNewExpression(node) && ts.isIdentifier(node.expression)) {
+      if (node.expression.text === "Date" && (!node.arguments || node.arguments.length === 0)) {
+        report("date-now", "new Date() without arguments reads the wall clock");
+      } else if (NETWORK_GLOBALS.has(node.expression.text)) {
+        report("network-call", `new ${node.expression.text}() performs network I/O, which is not deterministic`);
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return issues;
+}
+
+// Lint the workflow file of a workflow directory
+export function lintWorkflow(workflowDir: string): LintIssue[] {
+  const file = ["workflow.ts", "workflow.js"].find((name) => fs.existsSync(path.join(workflowDir, name)));
+
+  if (!file) {
+    throw new Error(`No workflow.ts or workflow.js found in ${workflowDir}`);
+  }
+
+  return lintSource(file, fs.readFileSync(path.join(workflowDir, file), "utf-8"));
+}
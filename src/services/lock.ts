@@ -0,0 +1,147 @@
+import * as os from "os";
+import { randomUUID } from "crypto";
+import { WorkflowLock } from "../types";
+import { createLogger } from "../lib/logger";
+import { getDeployer } from "./auth";
+import { createWorkflowLock, deleteWorkflowLock, getWorkflowLock, replaceWorkflowLock } from "./minio";
+
+const logger = createLogger("lock");
+
+// How long a lock stays valid without a heartbeat
+export const LOCK_LEASE_MS = 2 * 60 * 1000;
+
+// How often a held lock is renewed
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// A lock held by this process
+export interface WorkflowLockHandle {
+  lock: WorkflowLock;
+  // Throws when the lock expired or was broken while the operation ran
+  ensureHeld(): Promise<void>;
+  release(): Promise<void>;
+}
+
+export function isLockExpired(lock: WorkflowLock, now: Date = new Date()): boolean {
+  return new Date(lock.expiresAt).getTime() <= now.getTime();
+}
+
+// One line description of who holds a lock, for error messages
+export function describeLock(lock: WorkflowLock): string {
+  return `${lock.owner} on ${lock.hostname} (${lock.operation}, since ${new Date(lock.acquiredAt).toLocaleString()})`;
+}
+
+function renewedLock(lock: WorkflowLock): WorkflowLock {
+  const now = new Date();
+  return {
+    ...lock,
+    heartbeatAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + LOCK_LEASE_MS).toISOString(),
+  };
+}
+
+// Take the lock of a workflow. A lock whose lease expired is taken over, a live
+// one makes this fail with the holder's details.
+export async function acquireWorkflowLock(workflowName: string, operation: string): Promise<WorkflowLockHandle> {
+  const acquiredAt = new Date().toISOString();
+  let lock = renewedLock({
+    workflowName,
+    token: randomUUID(),
+    owner: getDeployer(),
+    hostname: os.hostname(),
+    pid: process.pid,
+    operation,
+    acquiredAt,
+    heartbeatAt: acquiredAt,
+    expiresAt: acquiredAt,
+  });
+
+  let created = await createWorkflowLock(lock);
+
+  if (!created) {
+    const existing = await getWorkflowLock(workflowName);
+
+    if (existing && !isLockExpired(existing.lock)) {
+      throw new Error(
+        `${workflowName} is locked by ${describeLock(existing.lock)}, expires ${new Date(existing.lock.expiresAt).toLocaleString()}.\n` +
+          `If that operation is no longer running, remove the lock with: workflow-cli lock break ${workflowName}`
+      );
+    }
+
+    // Replace the stale lock only if it is still the one we read, so two processes
+    // taking it over at the same time cannot both succeed
+    logger.warn({ workflowName, previous: existing?.lock }, "Taking over expired lock");
+    created = existing ? await replaceWorkflowLock(lock, existing.etag) : await createWorkflowLock(lock);
+  }
+
+  // Read the lock back, in case the storage ignored the write condition
+  const stored = await getWorkflowLock(workflowName);
+  if (!created || stored?.lock.token !== lock.token) {
+    throw new Error(`${workflowName} was locked by another operation at the same time, try again`);
+  }
+
+  let etag = stored.etag;
+  let lost = false;
+  let released = false;
+  let renewal: Promise<void> = Promise.resolve();
+
+  // Renewals are conditional on our last write, a lock taken over by someone else is never overwritten
+  const renew = async (): Promise<void> => {
+    try {
+      const renewed = renewedLock(lock);
+      const nextEtag = await replaceWorkflowLock(renewed, etag);
+      if (!nextEtag) {
+        lost = true;
+        clearInterval(heartbeat);
+        return;
+      }
+      lock = renewed;
+      etag = nextEtag;
+    } catch (error) {
+      logger.error(error, "Failed to renew workflow lock");
+    }
+  };
+  const heartbeat = setInterval(() => {
+    renewal = renewal.then(renew);
+  }, HEARTBEAT_INTERVAL_MS);
+  // Never keep the process alive just for the heartbeat
+  heartbeat.unref();
+
+  return {
+    get lock() {
+      return lock;
+    },
+
+    async ensureHeld() {
+      const current = await getWorkflowLock(workflowName);
+      if (lost || current?.lock.token !== lock.token || isLockExpired(current.lock)) {
+        throw new Error(`Lost the lock on ${workflowName}, it was broken or expired during the ${operation}`);
+      }
+    },
+
+    async release() {
+      if (released) {
+        return;
+      }
+      released = true;
+      clearInterval(heartbeat);
+
+      // Wait for a renewal in flight, then remove the lock only while it is still ours
+      await renewal;
+      await deleteWorkflowLock(workflowName, etag);
+    },
+  };
+}
+
+// Run an operation while holding the lock of a workflow
+export async function withWorkflowLock<T>(
+  workflowName: string,
+  operation: string,
+  fn: (handle: WorkflowLockHandle) => Promise<T>
+): Promise<T> {
+  const handle = await acquireWorkflowLock(workflowName, operation);
+  try {
+    return await fn(handle);
+  } finally {
+    await handle.release();
+  }
+}
@@ -1,153 +1,319 @@
-import * as Minio from "minio";
-import { getConfig } from "../config";
-import { WorkflowMetadata } from "../types";
-import { requireAuth, getCurrentUser } from "./auth";
-
-let minioClient: Minio.Client | null = null;
-
-function getClient(): Minio.Client {
-  if (!minioClient) {
-    const config = getConfig();
-    minioClient = new Minio.Client({
-      endPoint: config.minio.endPoint,
-      port: config.minio.port,
-      useSSL: config.minio.useSSL,
-      accessKey: config.minio.accessKey,
-      secretKey: config.minio.secretKey,
-    });
+import { BundleSignature, DeploymentIndex, DeploymentIndexEntry, TrafficSplit, WorkflowLock, WorkflowMetadata } from "../types";
+import { createLogger } from "../lib/logger";
+import { requireAuth, isAuthenticated, getEffectiveTenantId, checkTenantOverride } from "./auth";
+import { getMinioConfig, getStorageConfig } from "../config";
+import { calculateBufferChecksum } from "./packager";
+import { getStorage } from "./storage";
+import { sortVersions, versionsNeedingTimestamps } from "./versioning";
+
+const logger = createLogger("storage");
+
+// Prefix under which every tenant's workflows live: tenants/<tenantId>/<workflow>/...
+export const TENANTS_PREFIX = "tenants/";
+
+let tenantOverride: string | undefined;
+
+// Validate the --tenant flag and scope the following calls to that tenant
+export function useTenant(tenant?: string): void {
+  const error = checkTenantOverride(tenant);
+  if (error) {
+    throw new Error(error);
   }
-  return minioClient;
+  tenantOverride = tenant;
+}
+
+// Root prefix of the effective tenant, empty when no tenant is known (legacy layout)
+export function getTenantPrefix(): string {
+  const tenantId = getEffectiveTenantId(tenantOverride);
+  return tenantId ? `${TENANTS_PREFIX}${tenantId}/` : "";
+}
+
+function workflowPrefix(workflowName: string): string {
+  return `${getTenantPrefix()}${workflowName}/`;
 }
 
 // Ensure authenticated before making requests
 async function ensureAuth(): Promise<void> {
+  // The local driver never leaves the machine, so it works offline
+  if (getStorage().driver === "local") {
+    return;
+  }
   await requireAuth();
 }
 
+// Whether deployed workflows can be read without exiting: storage is configured
+// and, for MinIO, the user is logged in. For commands that work without storage.
+export async function isStorageAvailable(): Promise<boolean> {
+  try {
+    if (getStorageConfig().driver === "local") {
+      return true;
+    }
+    return getMinioConfig() !== null && (await isAuthenticated());
+  } catch {
+    return false;
+  }
+}
+
 // Ensure the bucket exists
 export async function ensureBucket(): Promise<void> {
   await ensureAuth();
-  const client = getClient();
-  const config = getConfig();
+  const storage = getStorage();
 
-  const exists = await client.bucketExists(config.minio.bucket);
-  if (!exists) {
-    await client.makeBucket(config.minio.bucket);
-    console.log(`Created bucket: ${config.minio.bucket}`);
+  const created = await storage.ensureBucket();
+  if (created) {
+    console.log(`Created bucket: ${storage.location}`);
   }
 }
 
-// Get deployer identifier from authenticated user
-function getDeployer(): string {
-  const user = getCurrentUser();
-  return user?.email || process.env.USER || process.env.USERNAME || "unknown";
+// Prefix holding uploads that have not been verified and promoted yet
+export const STAGING_PREFIX = ".staging/";
+
+// A version uploaded to the staging area, waiting to be promoted
+export interface StagedWorkflow {
+  workflowName: string;
+  version: string;
+  checksum: string;
+  stagingPrefix: string;
+  signed: boolean;
+}
+
+// Read a bundle and its metadata back and make sure both match the expected checksum
+async function verifyObjects(bundleKey: string, metadataKey: string, checksum: string): Promise<void> {
+  const storage = getStorage();
+
+  const bundle = await storage.getObject(bundleKey);
+  if (!bundle) {
+    throw new Error(`Verification failed: ${bundleKey} is missing`);
+  }
+  const actual = calculateBufferChecksum(bundle);
+  if (actual !== checksum) {
+    throw new Error(`Verification failed: checksum of ${bundleKey} is ${actual}, expected ${checksum}`);
+  }
+
+  const metadata = await storage.getObject(metadataKey);
+  if (!metadata) {
+    throw new Error(`Verification failed: ${metadataKey} is missing`);
+  }
+  const parsed = JSON.parse(metadata.toString("utf-8")) as WorkflowMetadata;
+  if (parsed.checksum !== checksum) {
+    throw new Error(`Verification failed: ${metadataKey} records checksum ${parsed.checksum}, expected ${checksum}`);
+  }
 }
 
-// Upload a workflow bundle to MinIO
-export async function uploadWorkflow(
+// Upload a bundle, its metadata and optional signature to the staging area and verify them
+export async function stageWorkflow(
   workflowName: string,
   version: string,
   bundlePath: string,
-  metadata: WorkflowMetadata
-): Promise<string> {
+  metadata: WorkflowMetadata,
+  signature?: BundleSignature | null
+): Promise<StagedWorkflow> {
   await ensureAuth();
-  const client = getClient();
-  const config = getConfig();
+  const storage = getStorage();
 
   await ensureBucket();
 
-  // Add deployer info to metadata
-  const enrichedMetadata = {
-    ...metadata,
-    deployedBy: getDeployer(),
+  const staged: StagedWorkflow = {
+    workflowName,
+    version,
+    checksum: metadata.checksum,
+    stagingPrefix: `${STAGING_PREFIX}${workflowPrefix(workflowName)}${version}-${Date.now()}/`,
+    signed: Boolean(signature),
   };
 
-  // Upload the bundle
-  const bundleKey = `${workflowName}/${version}/bundle.zip`;
-  await client.fPutObject(config.minio.bucket, bundleKey, bundlePath, {
-    "Content-Type": "application/zip",
-  });
+  try {
+    await storage.putFile(`${staged.stagingPrefix}bundle.zip`, bundlePath, "application/zip");
+    await storage.putObject(
+      `${staged.stagingPrefix}metadata.json`,
+      Buffer.from(JSON.stringify(metadata, null, 2)),
+      "application/json"
+    );
+    if (signature) {
+      await storage.putObject(
+        `${staged.stagingPrefix}signature.json`,
+        Buffer.from(JSON.stringify(signature, null, 2)),
+        "application/json"
+      );
+    }
+    await verifyObjects(`${staged.stagingPrefix}bundle.zip`, `${staged.stagingPrefix}metadata.json`, staged.checksum);
+  } catch (error) {
+    await discardStagedWorkflow(staged);
+    throw error;
+  }
 
-  // Upload the metadata
-  const metadataKey = `${workflowName}/${version}/metadata.json`;
-  const metadataBuffer = Buffer.from(JSON.stringify(enrichedMetadata, null, 2));
-  await client.putObject(config.minio.bucket, metadataKey, metadataBuffer, metadataBuffer.length, {
-    "Content-Type": "application/json",
-  });
+  return staged;
+}
 
-  // Update the latest pointer
-  const latestKey = `${workflowName}/latest`;
-  const latestBuffer = Buffer.from(version);
-  await client.putObject(config.minio.bucket, latestKey, latestBuffer, latestBuffer.length, {
-    "Content-Type": "text/plain",
-  });
+// A version copied to its final location. The objects of a version it overwrote are
+// kept under backupPrefix until the deploy is accepted or reverted.
+export interface CommittedWorkflow {
+  workflowName: string;
+  version: string;
+  bundleKey: string;
+  backupPrefix: string | null;
+}
+
+// Copy every object under one prefix to another, returns the number of objects copied
+async function copyPrefix(sourcePrefix: string, targetPrefix: string): Promise<number> {
+  const storage = getStorage();
+
+  const entries = await storage.listObjects(sourcePrefix, true);
+  for (const entry of entries) {
+    if (entry.name) {
+      await storage.copyObject(entry.name, `${targetPrefix}${entry.name.substring(sourcePrefix.length)}`);
+    }
+  }
+  return entries.length;
+}
+
+// Remove every object under a prefix
+async function removePrefix(prefix: string): Promise<void> {
+  const storage = getStorage();
 
-  return bundleKey;
+  for (const entry of await storage.listObjects(prefix, true)) {
+    if (entry.name) {
+      await storage.removeObject(entry.name);
+    }
+  }
+}
+
+// Put a version folder back the way it was before a commit: the backed up objects,
+// or nothing when the version did not exist
+async function restoreVersionObjects(versionPrefix: string, backupPrefix: string | null): Promise<void> {
+  await removePrefix(versionPrefix);
+  if (backupPrefix) {
+    await copyPrefix(backupPrefix, versionPrefix);
+    await removePrefix(backupPrefix);
+  }
+}
+
+// Copy a staged version to its final location and verify it there. An existing version
+// is backed up first and restored if the copy fails. The latest pointer is not touched,
+// callers move it once the version is accepted.
+export async function commitStagedWorkflow(staged: StagedWorkflow): Promise<CommittedWorkflow> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  const { workflowName, version } = staged;
+  const versionPrefix = `${workflowPrefix(workflowName)}${version}/`;
+  const bundleKey = `${versionPrefix}bundle.zip`;
+  const metadataKey = `${versionPrefix}metadata.json`;
+
+  // Stored next to the staged upload, so gc removes it if the deploy is interrupted
+  const backupPrefix = `${staged.stagingPrefix.replace(/\/$/, "")}-previous/`;
+  const committed: CommittedWorkflow = {
+    workflowName,
+    version,
+    bundleKey,
+    backupPrefix: (await copyPrefix(versionPrefix, backupPrefix)) > 0 ? backupPrefix : null,
+  };
+
+  try {
+    await storage.copyObject(`${staged.stagingPrefix}bundle.zip`, bundleKey);
+    await storage.copyObject(`${staged.stagingPrefix}metadata.json`, metadataKey);
+    if (staged.signed) {
+      await storage.copyObject(`${staged.stagingPrefix}signature.json`, `${versionPrefix}signature.json`);
+    } else {
+      // Never keep a signature from an overwritten version around
+      await storage.removeObject(`${versionPrefix}signature.json`);
+    }
+    await verifyObjects(bundleKey, metadataKey, staged.checksum);
+  } catch (error) {
+    try {
+      await restoreVersionObjects(versionPrefix, committed.backupPrefix);
+    } catch (restoreError) {
+      logger.error({ err: restoreError, workflowName, version }, "Failed to restore version after failed commit");
+    }
+    throw error;
+  } finally {
+    await discardStagedWorkflow(staged);
+  }
+
+  await refreshIndexEntry(workflowName);
+
+  return committed;
+}
+
+// Keep a committed version for good, dropping the objects of the version it overwrote
+export async function acceptCommittedWorkflow(committed: CommittedWorkflow): Promise<void> {
+  if (committed.backupPrefix) {
+    await removePrefix(committed.backupPrefix);
+  }
+}
+
+// Undo a committed version: the version it overwrote is restored, a new version is removed
+export async function revertCommittedWorkflow(committed: CommittedWorkflow): Promise<void> {
+  await ensureAuth();
+
+  await restoreVersionObjects(`${workflowPrefix(committed.workflowName)}${committed.version}/`, committed.backupPrefix);
+  await refreshIndexEntry(committed.workflowName);
+}
+
+// Remove everything under a staging prefix
+export async function discardStagedWorkflow(staged: Pick<StagedWorkflow, "stagingPrefix">): Promise<void> {
+  await removePrefix(staged.stagingPrefix);
 }
 
 // List all workflows in the bucket
 export async function listWorkflows(): Promise<string[]> {
   await ensureAuth();
-  const client = getClient();
-  const config = getConfig();
+  const storage = getStorage();
 
   await ensureBucket();
 
+  const root = getTenantPrefix();
+  const entries = await storage.listObjects(root, false);
   const workflows = new Set<string>();
-  const stream = client.listObjects(config.minio.bucket, "", false);
 
-  return new Promise((resolve, reject) => {
-    stream.on("data", (obj) => {
-      if (obj.prefix) {
-        const name = obj.prefix.replace(/\/$/, "");
-        workflows.add(name);
-      }
-    });
-    stream.on("error", reject);
-    stream.on("end", () => resolve(Array.from(workflows)));
-  });
+  for (const entry of entries) {
+    // Skip reserved prefixes such as the staging area and the tenants root
+    if (entry.prefix && !entry.prefix.startsWith(".") && entry.prefix !== TENANTS_PREFIX) {
+      workflows.add(entry.prefix.substring(root.length).replace(/\/$/, ""));
+    }
+  }
+
+  return Array.from(workflows);
 }
 
 // List versions of a specific workflow
 export async function listVersions(workflowName: string): Promise<string[]> {
   await ensureAuth();
-  const client = getClient();
-  const config = getConfig();
+  const storage = getStorage();
 
+  const prefix = workflowPrefix(workflowName);
+  const entries = await storage.listObjects(prefix, false);
   const versions: string[] = [];
-  const prefix = `${workflowName}/`;
-  const stream = client.listObjects(config.minio.bucket, prefix, false);
-
-  return new Promise((resolve, reject) => {
-    stream.on("data", (obj) => {
-      if (obj.prefix) {
-        const version = obj.prefix.replace(prefix, "").replace(/\/$/, "");
-        if (version !== "latest" && version) {
-          versions.push(version);
-        }
+
+  for (const entry of entries) {
+    if (entry.prefix) {
+      const version = entry.prefix.replace(prefix, "").replace(/\/$/, "");
+      if (version !== "latest" && version !== CHANNELS_DIR && version) {
+        versions.push(version);
       }
-    });
-    stream.on("error", reject);
-    stream.on("end", () => resolve(versions.sort().reverse()));
-  });
+    }
+  }
+
+  // Custom version names are ordered by when they were deployed
+  const deployedAt = new Map<string, number>();
+  for (const version of versionsNeedingTimestamps(versions)) {
+    const metadata = await getMetadata(workflowName, version);
+    if (metadata) {
+      deployedAt.set(version, new Date(metadata.deployedAt).getTime());
+    }
+  }
+
+  return sortVersions(versions, deployedAt);
 }
 
 // Get the latest version of a workflow
 export async function getLatestVersion(workflowName: string): Promise<string | null> {
   await ensureAuth();
-  const client = getClient();
-  const config = getConfig();
+  const storage = getStorage();
 
   try {
-    const latestKey = `${workflowName}/latest`;
-    const stream = await client.getObject(config.minio.bucket, latestKey);
-
-    return new Promise((resolve, reject) => {
-      let data = "";
-      stream.on("data", (chunk) => (data += chunk));
-      stream.on("end", () => resolve(data.trim()));
-      stream.on("error", reject);
-    });
+    const latestKey = `${workflowPrefix(workflowName)}latest`;
+    const data = await storage.getObject(latestKey);
+    return data ? data.toString("utf-8").trim() : null;
   } catch {
     return null;
   }
@@ -156,59 +322,533 @@ export async function getLatestVersion(workflowName: string): Promise<string | n
 // Get workflow metadata
 export async function getMetadata(workflowName: string, version: string): Promise<WorkflowMetadata | null> {
   await ensureAuth();
-  const client = getClient();
-  const config = getConfig();
+  const storage = getStorage();
 
   try {
-    const metadataKey = `${workflowName}/${version}/metadata.json`;
-    const stream = await client.getObject(config.minio.bucket, metadataKey);
-
-    return new Promise((resolve, reject) => {
-      let data = "";
-      stream.on("data", (chunk) => (data += chunk));
-      stream.on("end", () => resolve(JSON.parse(data)));
-      stream.on("error", reject);
-    });
+    const metadataKey = `${workflowPrefix(workflowName)}${version}/metadata.json`;
+    const data = await storage.getObject(metadataKey);
+    return data ? JSON.parse(data.toString("utf-8")) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Get the signature of a specific version, null when it is unsigned
+export async function getSignature(workflowName: string, version: string): Promise<BundleSignature | null> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  try {
+    const data = await storage.getObject(`${workflowPrefix(workflowName)}${version}/signature.json`);
+    return data ? JSON.parse(data.toString("utf-8")) : null;
   } catch {
     return null;
   }
 }
 
+// Download the bundle of a specific version
+export async function getBundle(workflowName: string, version: string): Promise<Buffer | null> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  return storage.getObject(`${workflowPrefix(workflowName)}${version}/bundle.zip`);
+}
+
 // Delete a specific version
 export async function deleteVersion(workflowName: string, version: string): Promise<void> {
   await ensureAuth();
-  const client = getClient();
-  const config = getConfig();
+  const storage = getStorage();
 
-  const prefix = `${workflowName}/${version}/`;
-  const objects: string[] = [];
+  const prefix = `${workflowPrefix(workflowName)}${version}/`;
+  const entries = await storage.listObjects(prefix, true);
 
-  const stream = client.listObjects(config.minio.bucket, prefix, true);
+  for (const entry of entries) {
+    if (entry.name) {
+      await storage.removeObject(entry.name);
+    }
+  }
 
-  await new Promise<void>((resolve, reject) => {
-    stream.on("data", (obj) => {
-      if (obj.name) {
-        objects.push(obj.name);
-      }
-    });
-    stream.on("error", reject);
-    stream.on("end", resolve);
-  });
+  await refreshIndexEntry(workflowName);
+}
+
+// List the object names stored in a version folder (e.g. "bundle.zip")
+export async function listVersionObjects(workflowName: string, version: string): Promise<string[]> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  const prefix = `${workflowPrefix(workflowName)}${version}/`;
+  const entries = await storage.listObjects(prefix, true);
+
+  return entries.filter((entry) => entry.name).map((entry) => (entry.name as string).substring(prefix.length));
+}
+
+// Remove the latest pointer of a workflow
+export async function deleteLatestVersion(workflowName: string): Promise<void> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  await storage.removeObject(`${workflowPrefix(workflowName)}latest`);
+  await refreshIndexEntry(workflowName);
+}
+
+// List staged uploads of the effective tenant that were never promoted or discarded
+export async function listStagedUploads(): Promise<{ workflowName: string; prefix: string; lastModified?: Date }[]> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  const root = `${STAGING_PREFIX}${getTenantPrefix()}`;
+  const entries = await storage.listObjects(root, true);
+  const uploads = new Map<string, { workflowName: string; prefix: string; lastModified?: Date }>();
+
+  for (const entry of entries) {
+    if (!entry.name) {
+      continue;
+    }
+    // The legacy root contains the staging areas of every tenant, those are not ours
+    if (root === STAGING_PREFIX && entry.name.startsWith(`${STAGING_PREFIX}${TENANTS_PREFIX}`)) {
+      continue;
+    }
+    // Staged objects are named <root><workflow>/<version>-<timestamp>/<file>
+    const parts = entry.name.substring(root.length).split("/");
+    if (parts.length < 3) {
+      continue;
+    }
+    const prefix = `${root}${parts[0]}/${parts[1]}/`;
+    const previous = uploads.get(prefix);
+    if (!previous || (entry.lastModified && (!previous.lastModified || entry.lastModified > previous.lastModified))) {
+      uploads.set(prefix, { workflowName: parts[0], prefix, lastModified: entry.lastModified });
+    }
+  }
+
+  return Array.from(uploads.values());
+}
+
+// List every object key under a workflow, relative to the workflow prefix
+export async function listWorkflowObjects(workflowName: string): Promise<string[]> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  const prefix = workflowPrefix(workflowName);
+  const entries = await storage.listObjects(prefix, true);
+
+  return entries.filter((entry) => entry.name).map((entry) => (entry.name as string).substring(prefix.length));
+}
+
+// Read an object under a workflow by its relative key
+export async function getWorkflowObject(workflowName: string, key: string): Promise<Buffer | null> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  return storage.getObject(`${workflowPrefix(workflowName)}${key}`);
+}
+
+function contentTypeFor(key: string): string {
+  if (key.endsWith(".zip")) {
+    return "application/zip";
+  }
+  if (key.endsWith(".json")) {
+    return "application/json";
+  }
+  return "text/plain";
+}
 
-  for (const obj of objects) {
-    await client.removeObject(config.minio.bucket, obj);
+// Write a set of objects under a workflow. Version folders are written before
+// latest, channel and split pointers so a pointer never refers to a version that is not there yet.
+export async function importWorkflowObjects(workflowName: string, files: { key: string; data: Buffer }[]): Promise<void> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  await ensureBucket();
+
+  const prefix = workflowPrefix(workflowName);
+  const isPointer = (key: string) => !key.includes("/") || key.startsWith(`${CHANNELS_DIR}/`);
+  const ordered = [...files.filter((file) => !isPointer(file.key)), ...files.filter((file) => isPointer(file.key))];
+
+  for (const file of ordered) {
+    await storage.putObject(`${prefix}${file.key}`, file.data, contentTypeFor(file.key));
   }
+
+  await refreshIndexEntry(workflowName);
 }
 
 // Set a specific version as latest
 export async function setLatestVersion(workflowName: string, version: string): Promise<void> {
   await ensureAuth();
-  const client = getClient();
-  const config = getConfig();
+  const storage = getStorage();
+
+  const latestKey = `${workflowPrefix(workflowName)}latest`;
+  await storage.putObject(latestKey, Buffer.from(version), "text/plain");
+  await refreshIndexEntry(workflowName);
+}
+
+// Named channels are pointer objects like latest, stored as <workflow>/channels/<channel>.
+// "latest" itself is the default channel.
+export const DEFAULT_CHANNEL = "latest";
+export const CHANNELS_DIR = "channels";
+const CHANNEL_NAME = /^[a-z][a-z0-9-]{0,31}$/;
+
+// Throws when a channel name cannot be used as a pointer object name
+export function validateChannelName(channel: string): void {
+  if (!CHANNEL_NAME.test(channel)) {
+    throw new Error(`Invalid channel "${channel}". Use lowercase letters, digits and dashes, starting with a letter.`);
+  }
+}
+
+// Get the version a channel points at
+export async function getChannelVersion(workflowName: string, channel: string): Promise<string | null> {
+  if (channel === DEFAULT_CHANNEL) {
+    return getLatestVersion(workflowName);
+  }
+  validateChannelName(channel);
+  await ensureAuth();
 
-  const latestKey = `${workflowName}/latest`;
-  const latestBuffer = Buffer.from(version);
-  await client.putObject(config.minio.bucket, latestKey, latestBuffer, latestBuffer.length, {
-    "Content-Type": "text/plain",
+  const data = await getStorage().getObject(`${workflowPrefix(workflowName)}${CHANNELS_DIR}/${channel}`);
+  return data ? data.toString("utf-8").trim() : null;
+}
+
+// Point a channel at a version
+export async function setChannelVersion(workflowName: string, channel: string, version: string): Promise<void> {
+  if (channel === DEFAULT_CHANNEL) {
+    return setLatestVersion(workflowName, version);
+  }
+  validateChannelName(channel);
+  await ensureAuth();
+
+  await getStorage().putObject(`${workflowPrefix(workflowName)}${CHANNELS_DIR}/${channel}`, Buffer.from(version), "text/plain");
+  await refreshIndexEntry(workflowName);
+}
+
+// List a workflow's named channels (channel -> version), without latest
+export async function listChannels(workflowName: string): Promise<Record<string, string>> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  const prefix = `${workflowPrefix(workflowName)}${CHANNELS_DIR}/`;
+  const channels: Record<string, string> = {};
+
+  for (const entry of await storage.listObjects(prefix, false)) {
+    if (entry.name) {
+      const data = await storage.getObject(entry.name);
+      if (data) {
+        channels[entry.name.substring(prefix.length)] = data.toString("utf-8").trim();
+      }
+    }
+  }
+
+  return channels;
+}
+
+// Remove every named channel pointer of a workflow
+export async function deleteChannels(workflowName: string): Promise<void> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  for (const entry of await storage.listObjects(`${workflowPrefix(workflowName)}${CHANNELS_DIR}/`, false)) {
+    if (entry.name) {
+      await storage.removeObject(entry.name);
+    }
+  }
+  await refreshIndexEntry(workflowName);
+}
+
+// Remove one named channel pointer of a workflow
+export async function deleteChannel(workflowName: string, channel: string): Promise<void> {
+  validateChannelName(channel);
+  await ensureAuth();
+
+  await getStorage().removeObject(`${workflowPrefix(workflowName)}${CHANNELS_DIR}/${channel}`);
+  await refreshIndexEntry(workflowName);
+}
+
+// Traffic split document, stored next to the latest pointer
+const SPLIT_OBJECT = "split.json";
+
+// Get the traffic split of a workflow, null when none is configured
+export async function getTrafficSplit(workflowName: string): Promise<TrafficSplit | null> {
+  await ensureAuth();
+
+  const data = await getStorage().getObject(`${workflowPrefix(workflowName)}${SPLIT_OBJECT}`);
+  return data ? (JSON.parse(data.toString("utf-8")) as TrafficSplit) : null;
+}
+
+// Store the traffic split of a workflow
+export async function setTrafficSplit(workflowName: string, split: TrafficSplit): Promise<void> {
+  await ensureAuth();
+
+  await getStorage().putObject(
+    `${workflowPrefix(workflowName)}${SPLIT_OBJECT}`,
+    Buffer.from(JSON.stringify(split, null, 2)),
+    "application/json"
+  );
+}
+
+// Remove the traffic split of a workflow
+export async function deleteTrafficSplit(workflowName: string): Promise<void> {
+  await ensureAuth();
+
+  await getStorage().removeObject(`${workflowPrefix(workflowName)}${SPLIT_OBJECT}`);
+}
+
+// Prefix holding the deploy locks, kept outside the workflow folders so they are never exported
+export const LOCKS_PREFIX = ".locks/";
+
+function lockKey(workflowName: string): string {
+  return `${LOCKS_PREFIX}${getTenantPrefix()}${workflowName}.json`;
+}
+
+// Get the lock of a workflow with its ETag, null when it is not locked
+export async function getWorkflowLock(workflowName: string): Promise<{ lock: WorkflowLock; etag: string } | null> {
+  await ensureAuth();
+
+  const object = await getStorage().getObjectWithEtag(lockKey(workflowName));
+  return object ? { lock: JSON.parse(object.data.toString("utf-8")) as WorkflowLock, etag: object.etag } : null;
+}
+
+// Create the lock of a workflow, returns its ETag or null when another lock is in place
+export async function createWorkflowLock(lock: WorkflowLock): Promise<string | null> {
+  await ensureAuth();
+
+  await ensureBucket();
+  return getStorage().createObject(lockKey(lock.workflowName), Buffer.from(JSON.stringify(lock, null, 2)), "application/json");
+}
+
+// Overwrite the lock of a workflow if it is still the one with the given ETag (heartbeats
+// and taking over a stale lock). Returns the new ETag, or null when the lock changed.
+export async function replaceWorkflowLock(lock: WorkflowLock, etag: string): Promise<string | null> {
+  await ensureAuth();
+
+  return getStorage().replaceObject(
+    lockKey(lock.workflowName),
+    Buffer.from(JSON.stringify(lock, null, 2)),
+    "application/json",
+    etag
+  );
+}
+
+// Remove the lock of a workflow if it is still the one with the given ETag
+export async function deleteWorkflowLock(workflowName: string, etag: string): Promise<boolean> {
+  await ensureAuth();
+
+  return getStorage().removeObjectIfMatch(lockKey(workflowName), etag);
+}
+
+// List the locks held on workflows of the effective tenant
+export async function listWorkflowLocks(): Promise<WorkflowLock[]> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  const entries = await storage.listObjects(`${LOCKS_PREFIX}${getTenantPrefix()}`, false);
+  const locks: WorkflowLock[] = [];
+
+  for (const entry of entries) {
+    if (!entry.name?.endsWith(".json")) {
+      continue;
+    }
+    const data = await storage.getObject(entry.name);
+    if (data) {
+      locks.push(JSON.parse(data.toString("utf-8")) as WorkflowLock);
+    }
+  }
+
+  return locks;
+}
+
+// List workflows stored with the legacy unprefixed layout (<workflow>/...)
+export async function listLegacyWorkflows(): Promise<string[]> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  const entries = await storage.listObjects("", false);
+  const workflows: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.prefix && !entry.prefix.startsWith(".") && entry.prefix !== TENANTS_PREFIX) {
+      workflows.push(entry.prefix.replace(/\/$/, ""));
+    }
+  }
+
+  return workflows;
+}
+
+// Move a legacy workflow's objects under the effective tenant prefix, returns the number of objects moved
+export async function migrateLegacyWorkflow(workflowName: string, dryRun = false): Promise<number> {
+  await ensureAuth();
+  const storage = getStorage();
+
+  const root = getTenantPrefix();
+  if (!root) {
+    throw new Error("No tenant available to migrate into. Log in or pass --tenant.");
+  }
+
+  const sourcePrefix = `${workflowName}/`;
+  const targetPrefix = `${root}${workflowName}/`;
+
+  const existing = await storage.listObjects(targetPrefix, true);
+  if (existing.length > 0) {
+    throw new Error(`${targetPrefix} already contains objects`);
+  }
+
+  const entries = (await storage.listObjects(sourcePrefix, true)).filter((entry) => entry.name);
+  if (dryRun) {
+    return entries.length;
+  }
+
+  // Copy everything first, then remove the originals so a failure never loses data
+  for (const entry of entries) {
+    const key = entry.name as string;
+    await storage.copyObject(key, `${targetPrefix}${key.substring(sourcePrefix.length)}`);
+  }
+  for (const entry of entries) {
+    await storage.removeObject(entry.name as string);
+  }
+
+  await refreshIndexEntry(workflowName);
+  await removeIndexEntry("", workflowName);
+
+  return entries.length;
+}
+
+// Name of the deployment index object stored at each tenant root
+export const INDEX_OBJECT = "_index.json";
+
+async function readIndexAt(root: string): Promise<DeploymentIndex | null> {
+  const data = await getStorage().getObject(`${root}${INDEX_OBJECT}`);
+  return data ? (JSON.parse(data.toString("utf-8")) as DeploymentIndex) : null;
+}
+
+// Times a conditional index write is retried after another process wrote the index first
+const INDEX_UPDATE_ATTEMPTS = 5;
+
+// Apply a change to the index at root. The write only succeeds while the index is still the
+// one that was read, otherwise the change is applied again to the newer index.
+// Returns false when there is no index yet.
+async function updateIndexAt(root: string, change: (index: DeploymentIndex) => boolean): Promise<boolean> {
+  const storage = getStorage();
+  const key = `${root}${INDEX_OBJECT}`;
+
+  for (let attempt = 0; attempt < INDEX_UPDATE_ATTEMPTS; attempt++) {
+    const current = await storage.getObjectWithEtag(key);
+    if (!current) {
+      return false;
+    }
+
+    const index = JSON.parse(current.data.toString("utf-8")) as DeploymentIndex;
+    if (!change(index)) {
+      return true;
+    }
+
+    index.updatedAt = new Date().toISOString();
+    if (await storage.replaceObject(key, Buffer.from(JSON.stringify(index, null, 2)), "application/json", current.etag)) {
+      return true;
+    }
+  }
+
+  throw new Error(`${INDEX_OBJECT} kept changing while it was updated, rebuild it with: workflow-cli reindex`);
+}
+
+// Build one workflow's index entry from the raw objects
+async function buildIndexEntry(workflowName: string): Promise<DeploymentIndexEntry | null> {
+  const versions = await listVersions(workflowName);
+  const latest = await getLatestVersion(workflowName);
+
+  if (versions.length === 0 && latest === null) {
+    return null;
+  }
+
+  return {
+    latest,
+    versions,
+    metadata: latest ? await getMetadata(workflowName, latest) : null,
+    channels: await listChannels(workflowName),
+  };
+}
+
+// Index updates of this process, run one after another so workflows deployed
+// in parallel (deploy --all) never overwrite each other's entries
+let indexUpdates: Promise<void> = Promise.resolve();
+
+function queueIndexUpdate(update: () => Promise<void>): Promise<void> {
+  indexUpdates = indexUpdates.then(update, update);
+  return indexUpdates;
+}
+
+// Bring a workflow's entry in the index in line with the raw objects.
+// A missing index is built from scratch the first time it is needed.
+function refreshIndexEntry(workflowName: string): Promise<void> {
+  return queueIndexUpdate(() => updateIndexEntry(workflowName));
+}
+
+async function updateIndexEntry(workflowName: string): Promise<void> {
+  try {
+    const entry = await buildIndexEntry(workflowName);
+    const updated = await updateIndexAt(getTenantPrefix(), (index) => {
+      if (entry) {
+        index.workflows[workflowName] = entry;
+      } else {
+        delete index.workflows[workflowName];
+      }
+      return true;
+    });
+
+    if (!updated) {
+      await rebuildDeploymentIndex();
+    }
+  } catch (error) {
+    logger.warn({ err: error, workflowName }, "Failed to update deployment index");
+  }
+}
+
+function removeIndexEntry(root: string, workflowName: string): Promise<void> {
+  return queueIndexUpdate(async () => {
+    await updateIndexAt(root, (index) => {
+      if (!index.workflows[workflowName]) {
+        return false;
+      }
+      delete index.workflows[workflowName];
+      return true;
+    });
   });
 }
+
+// Read the deployment index of the effective tenant, null when it was never built
+export async function getDeploymentIndex(): Promise<DeploymentIndex | null> {
+  await ensureAuth();
+
+  try {
+    return await readIndexAt(getTenantPrefix());
+  } catch {
+    return null;
+  }
+}
+
+// Rebuild the deployment index of the effective tenant from the raw objects. The index
+// is read before the objects are listed and only replaced if nothing wrote it in between,
+// otherwise the rebuild starts over so a concurrent update is never lost.
+export async function rebuildDeploymentIndex(): Promise<DeploymentIndex> {
+  await ensureAuth();
+  const storage = getStorage();
+  const key = `${getTenantPrefix()}${INDEX_OBJECT}`;
+
+  for (let attempt = 0; attempt < INDEX_UPDATE_ATTEMPTS; attempt++) {
+    const current = await storage.getObjectWithEtag(key);
+    const index: DeploymentIndex = { updatedAt: "", workflows: {} };
+
+    for (const workflowName of await listWorkflows()) {
+      const entry = await buildIndexEntry(workflowName);
+      if (entry) {
+        index.workflows[workflowName] = entry;
+      }
+    }
+
+    index.updatedAt = new Date().toISOString();
+    const data = Buffer.from(JSON.stringify(index, null, 2));
+    const written = current
+      ? await storage.replaceObject(key, data, "application/json", current.etag)
+      : await storage.createObject(key, data, "application/json");
+    if (written) {
+      return index;
+    }
+  }
+
+  throw new Error(`${INDEX_OBJECT} kept changing while it was rebuilt, try again`);
+}
@@ -1,28 +1,76 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as crypto from "crypto";
+import * as vm from "vm";
+import Module, { createRequire } from "module";
 import archiver from "archiver";
-import { WorkflowConfig, WorkflowConfigSchema, WorkflowMetadata } from "../types";
+import AdmZip from "adm-zip";
+import ignore, { Ignore } from "ignore";
+import * as ts from "typescript";
+import { WorkflowBuild, WorkflowConfig, WorkflowConfigSchema, WorkflowMetadata, WorkflowProvenance } from "../types";
+import { getDeployer } from "./auth";
 
-// Validate and load workflow config from a directory
+// Compiler options for config.ts and the local modules it imports
+const CONFIG_COMPILER_OPTIONS: ts.CompilerOptions = {
+  module: ts.ModuleKind.CommonJS,
+  target: ts.ScriptTarget.ES2020,
+  esModuleInterop: true,
+};
+
+// Load a TypeScript module by transpiling it in-process. Relative imports of
+// other .ts files are loaded the same way, anything else goes through Node's
+// resolution from the module's directory.
+function loadTypeScriptModule(filePath: string, cache = new Map<string, { exports: unknown }>()): unknown {
+  const cached = cache.get(filePath);
+  if (cached) {
+    return cached.exports;
+  }
+
+  const { outputText } = ts.transpileModule(fs.readFileSync(filePath, "utf-8"), {
+    compilerOptions: CONFIG_COMPILER_OPTIONS,
+    fileName: filePath,
+  });
+
+  const loaded = { exports: {} as unknown };
+  cache.set(filePath, loaded);
+
+  const nodeRequire = createRequire(filePath);
+  const localRequire = (specifier: string): unknown => {
+    if (specifier.startsWith(".")) {
+      const resolved = resolveSourceFile(path.resolve(path.dirname(filePath), specifier));
+      if (resolved?.endsWith(".ts")) {
+        return loadTypeScriptModule(resolved, cache);
+      }
+    }
+    return nodeRequire(specifier);
+  };
+
+  const wrapper = vm.runInThisContext(Module.wrap(outputText), { filename: filePath });
+  wrapper.call(loaded.exports, loaded.exports, localRequire, loaded, filePath, path.dirname(filePath));
+
+  return loaded.exports;
+}
+
+// Validate and load workflow config from a directory. Every command that needs
+// the config goes through here.
 export async function loadWorkflowConfig(workflowDir: string): Promise<WorkflowConfig> {
   const configPath = path.join(workflowDir, "config.ts");
   const configPathJs = path.join(workflowDir, "config.js");
 
+  let configModule: Record<string, unknown>;
   let configFile: string;
   if (fs.existsSync(configPath)) {
     configFile = configPath;
+    configModule = loadTypeScriptModule(configPath) as Record<string, unknown>;
   } else if (fs.existsSync(configPathJs)) {
     configFile = configPathJs;
+    configModule = createRequire(configPathJs)(configPathJs);
   } else {
     throw new Error(`No config.ts or config.js found in ${workflowDir}`);
   }
 
-  // Use require to load the config (works with ts-node)
-  const configModule = require(configFile);
-
   // Find the config export
-  let config: WorkflowConfig | undefined;
+  let config: unknown;
 
   if (configModule.default) {
     config = configModule.default;
@@ -39,7 +87,13 @@ export async function loadWorkflowConfig(workflowDir: string): Promise<WorkflowC
     throw new Error(`No valid config export found in ${configFile}`);
   }
 
-  return WorkflowConfigSchema.parse(config);
+  const result = WorkflowConfigSchema.safeParse(config);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  - ${issue.path.join(".") || "config"}: ${issue.message}`);
+    throw new Error(`Invalid workflow config in ${path.basename(configFile)}:\n${issues.join("\n")}`);
+  }
+
+  return result.data;
 }
 
 // Validate workflow directory structure
@@ -62,8 +116,255 @@ export function validateWorkflowDir(workflowDir: string): void {
   }
 }
 
-// Create a zip bundle of the workflow
-export async function createBundle(workflowDir: string, outputPath: string): Promise<string> {
+// Find the source file for a module path, trying .ts before .js. A ".js" path
+// (the ESM-style import TypeScript allows) resolves to its .ts sibling first.
+function resolveSourceFile(basePath: string): string | undefined {
+  const tsSibling = basePath.endsWith(".js") ? [`${basePath.slice(0, -3)}.ts`] : [];
+  return [
+    ...tsSibling,
+    basePath,
+    `${basePath}.ts`,
+    `${basePath}.js`,
+    path.join(basePath, "index.ts"),
+    path.join(basePath, "index.js"),
+  ].find((candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+// Names exported by a source file, following relative `export * from` re-exports
+function listExportedNames(filePath: string, visited = new Set<string>()): Set<string> {
+  const names = new Set<string>();
+  if (visited.has(filePath)) {
+    return names;
+  }
+  visited.add(filePath);
+
+  const sourceFile = ts.createSourceFile(filePath, fs.readFileSync(filePath, "utf-8"), ts.ScriptTarget.Latest, true);
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement)) {
+      names.add("default");
+    } else if (ts.isExportDeclaration(statement)) {
+      if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        statement.exportClause.elements.forEach((element) => names.add(element.name.text));
+      } else if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+        const specifier = statement.moduleSpecifier.text;
+        const target = specifier.startsWith(".")
+          ? resolveSourceFile(path.resolve(path.dirname(filePath), specifier))
+          : undefined;
+        if (target) {
+          listExportedNames(target, visited).forEach((name) => names.add(name));
+        }
+      }
+    } else if (hasExportModifier(statement)) {
+      if (ts.isVariableStatement(statement)) {
+        statement.declarationList.declarations.forEach((declaration) => {
+          if (ts.isIdentifier(declaration.name)) {
+            names.add(declaration.name.text);
+          }
+        });
+      } else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+        names.add(statement.name.text);
+      }
+    }
+  }
+
+  return names;
+}
+
+// Activity names a workflow uses through proxyActivities / proxyLocalActivities
+function listProxiedActivities(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  const proxyVariables = new Set<string>();
+
+  const isProxyCall = (node: ts.Node): node is ts.CallExpression => {
+    if (!ts.isCallExpression(node)) {
+      return false;
+    }
+    const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.name : node.expression;
+    return ts.isIdentifier(callee) && (callee.text === "proxyActivities" || callee.text === "proxyLocalActivities");
+  };
+
+  const collectProxies = (node: ts.Node): void => {
+    if (isProxyCall(node)) {
+      // proxyActivities<{ name: ... }>()
+      const [typeArgument] = node.typeArguments || [];
+      if (typeArgument && ts.isTypeLiteralNode(typeArgument)) {
+        typeArgument.members.forEach((member) => {
+          if (member.name && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) {
+            names.add(member.name.text);
+          }
+        });
+      }
+
+      // const { name } = proxyActivities() or const activities = proxyActivities()
+      if (ts.isVariableDeclaration(node.parent)) {
+        const binding = node.parent.name;
+        if (ts.isIdentifier(binding)) {
+          proxyVariables.add(binding.text);
+        } else if (ts.isObjectBindingPattern(binding)) {
+          binding.elements.forEach((element) => {
+            const property = element.propertyName || element.name;
+            if (ts.isIdentifier(property)) {
+              names.add(property.text);
+            }
+          });
+        }
+      }
+    }
+    ts.forEachChild(node, collectProxies);
+  };
+
+  // activities.name(...)
+  const collectCalls = (node: ts.Node): void => {
+    if (
+      ts.isPropertyAccessExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      proxyVariables.has(node.expression.text)
+    ) {
+      names.add(node.name.text);
+    }
+    ts.forEachChild(node, collectCalls);
+  };
+
+  collectProxies(sourceFile);
+  collectCalls(sourceFile);
+  return names;
+}
+
+// Check that the config names an exported workflow function and that every
+// proxied activity is exported from activities.ts. Returns the problems found.
+export function checkWorkflowReferences(workflowDir: string, workflowName: string): string[] {
+  const problems: string[] = [];
+  const workflowFile = resolveSourceFile(path.join(workflowDir, "workflow"));
+
+  if (!workflowFile) {
+    return [`No workflow.ts or workflow.js found in ${workflowDir}`];
+  }
+
+  const workflowFileName = path.basename(workflowFile);
+  const workflowExports = listExportedNames(workflowFile);
+
+  if (!workflowExports.has(workflowName)) {
+    const exported = [...workflowExports].filter((name) => name !== "default");
+    problems.push(
+      `config.name "${workflowName}" is not exported from ${workflowFileName}` +
+        (exported.length > 0 ? ` (exports: ${exported.join(", ")})` : "")
+    );
+  }
+
+  const sourceFile = ts.createSourceFile(workflowFile, fs.readFileSync(workflowFile, "utf-8"), ts.ScriptTarget.Latest, true);
+  const activities = listProxiedActivities(sourceFile);
+
+  if (activities.size > 0) {
+    const activitiesFile = resolveSourceFile(path.join(workflowDir, "activities"));
+
+    if (!activitiesFile) {
+      problems.push(`${workflowFileName} uses activities (${[...activities].join(", ")}) but there is no activities.ts`);
+    } else {
+      const activityExports = listExportedNames(activitiesFile);
+      for (const activity of activities) {
+        if (!activityExports.has(activity)) {
+          problems.push(`Activity "${activity}" is used in ${workflowFileName} but not exported from ${path.basename(activitiesFile)}`);
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+// Every entry gets the same timestamp and permissions so identical sources
+// always produce a byte-identical bundle. The date is built from local time
+// components because zip stores DOS times without a timezone.
+const BUNDLE_ENTRY_DATE = new Date(1980, 0, 1, 0, 0, 0);
+const BUNDLE_ENTRY_MODE = 0o644;
+
+// gitignore-style rules read from the workflow directory
+export const IGNORE_FILE = ".workflowignore";
+
+// Never worth shipping to the bucket. A .workflowignore can re-include any of
+// these with a negated pattern, e.g. "!dist/".
+export const DEFAULT_IGNORE_PATTERNS = [
+  "node_modules/",
+  ".git/",
+  "dist/",
+  "coverage/",
+  ".env",
+  ".env.*",
+  "*.log",
+  ".DS_Store",
+  "Thumbs.db",
+  ".idea/",
+  ".vscode/",
+  "*.swp",
+  "*~",
+  IGNORE_FILE,
+];
+
+// Files the bundle cannot work without, packed regardless of ignore rules
+const REQUIRED_FILES = ["config.ts", "config.js", "workflow.ts", "workflow.js"];
+
+// Build the exclude matcher from the defaults and the workflow's .workflowignore
+function loadIgnoreRules(workflowDir: string): Ignore {
+  const rules = ignore().add(DEFAULT_IGNORE_PATTERNS);
+  const ignoreFile = path.join(workflowDir, IGNORE_FILE);
+
+  if (fs.existsSync(ignoreFile)) {
+    rules.add(fs.readFileSync(ignoreFile, "utf-8"));
+  }
+
+  return rules;
+}
+
+// List the files to bundle as sorted, forward-slash relative paths. Ignored
+// directories are not descended into. When an include allow-list is given,
+// only files matching one of its patterns are kept.
+export function listBundleFiles(workflowDir: string, include?: string[]): string[] {
+  const excluded = loadIgnoreRules(workflowDir);
+  const allowed = include && include.length > 0 ? ignore().add(include) : null;
+  const files: string[] = [];
+
+  const walk = (dir: string, prefix: string): void => {
+    for (const name of fs.readdirSync(dir)) {
+      const relativePath = prefix ? `${prefix}/${name}` : name;
+      const absolutePath = path.join(dir, name);
+
+      if (fs.statSync(absolutePath).isDirectory()) {
+        if (!excluded.ignores(`${relativePath}/`)) {
+          walk(absolutePath, relativePath);
+        }
+        continue;
+      }
+
+      if (REQUIRED_FILES.includes(relativePath)) {
+        files.push(relativePath);
+      } else if (!excluded.ignores(relativePath) && (!allowed || allowed.ignores(relativePath))) {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  walk(workflowDir, "");
+  return files.sort();
+}
+
+export interface BundleOptions {
+  // Allow-list from the workflow config
+  include?: string[];
+  // Generated files to add to the bundle, keyed by path
+  artifacts?: Record<string, string | Buffer>;
+}
+
+// Create a reproducible zip bundle of the workflow
+export async function createBundle(workflowDir: string, outputPath: string, options: BundleOptions = {}): Promise<string> {
+  const artifacts = options.artifacts || {};
+  // Generated artifacts replace stale copies from the source folder
+  const files = listBundleFiles(workflowDir, options.include).filter((file) => !(file in artifacts));
+
   return new Promise((resolve, reject) => {
     const output = fs.createWriteStream(outputPath);
     const archive = archiver("zip", { zlib: { level: 9 } });
@@ -73,8 +374,18 @@ export async function createBundle(workflowDir: string, outputPath: string): Pro
 
     archive.pipe(output);
 
-    // Add all files from the workflow directory
-    archive.directory(workflowDir, false);
+    // Entries are written in the order they are appended
+    for (const file of files) {
+      archive.append(fs.readFileSync(path.join(workflowDir, file)), {
+        name: file,
+        date: BUNDLE_ENTRY_DATE,
+        mode: BUNDLE_ENTRY_MODE,
+      });
+    }
+
+    for (const name of Object.keys(artifacts).sort()) {
+      archive.append(artifacts[name], { name, date: BUNDLE_ENTRY_DATE, mode: BUNDLE_ENTRY_MODE });
+    }
 
     archive.finalize();
   });
@@ -83,9 +394,65 @@ export async function createBundle(workflowDir: string, outputPath: string): Pro
 // Calculate checksum of a file
 export function calculateChecksum(filePath: string): string {
   const content = fs.readFileSync(filePath);
+  return calculateBufferChecksum(content);
+}
+
+// Calculate checksum of an in-memory bundle
+export function calculateBufferChecksum(content: Buffer): string {
   return crypto.createHash("sha256").update(content).digest("hex");
 }
 
+// Checksum of the workflow sources that go into the bundle. Unlike the bundle checksum
+// it does not depend on the compiled code, which embeds paths of the checkout.
+export function calculateSourceChecksum(workflowDir: string, files: string[]): string {
+  const hash = crypto.createHash("sha256");
+  for (const file of [...files].sort()) {
+    hash.update(file).update("\0").update(fs.readFileSync(path.join(workflowDir, file))).update("\0");
+  }
+  return hash.digest("hex");
+}
+
+// Extract a zip bundle into a directory, returns the extracted file paths
+export function extractBundle(bundle: Buffer, outputDir: string): string[] {
+  const zip = new AdmZip(bundle);
+  const root = path.resolve(outputDir);
+  const files: string[] = [];
+
+  for (const entry of zip.getEntries()) {
+    const targetPath = path.resolve(root, entry.entryName);
+
+    // Refuse entries that would escape the output directory
+    if (targetPath !== root && !targetPath.startsWith(root + path.sep)) {
+      throw new Error(`Bundle entry escapes output directory: ${entry.entryName}`);
+    }
+
+    if (entry.isDirectory) {
+      fs.mkdirSync(targetPath, { recursive: true });
+      continue;
+    }
+
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+    fs.writeFileSync(targetPath, entry.getData());
+    files.push(entry.entryName);
+  }
+
+  return files;
+}
+
+// Read the files of a zip bundle into memory, keyed by path
+export function readBundleEntries(bundle: Buffer): Map<string, Buffer> {
+  const zip = new AdmZip(bundle);
+  const entries = new Map<string, Buffer>();
+
+  for (const entry of zip.getEntries()) {
+    if (!entry.isDirectory) {
+      entries.set(entry.entryName, entry.getData());
+    }
+  }
+
+  return entries;
+}
+
 // Generate version string if not provided
 export function generateVersion(): string {
   const now = new Date();
@@ -103,7 +470,10 @@ export function generateVersion(): string {
 export function createMetadata(
   config: WorkflowConfig,
   version: string,
-  checksum: string
+  checksum: string,
+  build?: WorkflowBuild,
+  provenance?: WorkflowProvenance,
+  sourceChecksum?: string
 ): WorkflowMetadata {
   return {
     name: config.name,
@@ -112,8 +482,11 @@ export function createMetadata(
     taskQueue: config.taskQueue,
     trigger: config.trigger,
     deployedAt: new Date().toISOString(),
-    deployedBy: process.env.USER || "unknown",
+    deployedBy: getDeployer(),
     checksum,
+    ...(build && { build }),
+    ...(provenance && { provenance }),
+    ...(sourceChecksum && { sourceChecksum }),
   };
 }
 
@@ -0,0 +1,67 @@
+import * as os from "os";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { readFileSync } from "fs";
+import { WorkflowProvenance } from "../types";
+
+type GitProvenance = NonNullable<WorkflowProvenance["git"]>;
+
+// Run a git command in the workflow directory, null when it fails
+function git(cwd: string, args: string[]): string | null {
+  try {
+    return execFileSync("git", args, { cwd, encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+  } catch {
+    return null;
+  }
+}
+
+// Drop user and password from a remote URL so tokens never end up in metadata
+export function redactRemoteUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.username = "";
+    parsed.password = "";
+    return parsed.toString();
+  } catch {
+    // scp-like syntax such as git@github.com:org/repo.git has no password
+    return url;
+  }
+}
+
+// Git state of the checkout containing the workflow, null outside a git repository
+export function getGitProvenance(workflowDir: string): GitProvenance | null {
+  const commit = git(workflowDir, ["rev-parse", "HEAD"]);
+  if (!commit) {
+    return null;
+  }
+
+  const branch = git(workflowDir, ["rev-parse", "--abbrev-ref", "HEAD"]);
+  const remoteName = git(workflowDir, ["config", `branch.${branch}.remote`]) || "origin";
+  const remote = git(workflowDir, ["remote", "get-url", remoteName]);
+  const status = git(workflowDir, ["status", "--porcelain"]);
+
+  return {
+    commit,
+    // "HEAD" means a detached checkout
+    branch: branch && branch !== "HEAD" ? branch : null,
+    remote: remote ? redactRemoteUrl(remote) : null,
+    dirty: status === null || status.length > 0,
+  };
+}
+
+function getCliVersion(): string {
+  const packageJson = JSON.parse(readFileSync(path.join(__dirname, "..", "..", "package.json"), "utf-8"));
+  return packageJson.version;
+}
+
+// Collect the provenance recorded with a deployed version
+export function collectProvenance(workflowDir: string, message?: string): WorkflowProvenance {
+  const gitProvenance = getGitProvenance(workflowDir);
+
+  return {
+    ...(gitProvenance && { git: gitProvenance }),
+    cliVersion: getCliVersion(),
+    hostname: os.hostname(),
+    ...(message && { message }),
+  };
+}
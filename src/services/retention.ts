@@ -0,0 +1,86 @@
+import { RetentionPolicy, WorkflowMetadata } from "../types";
+import { listVersions, getLatestVersion, getMetadata, deleteVersion, listChannels, getTrafficSplit } from "./minio";
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Parse a duration such as "30d", "12h" or "2w" into milliseconds
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)([mhdw])$/);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}". Use a number followed by m, h, d or w (e.g. 30d)`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+}
+
+export interface PruneResult {
+  workflowName: string;
+  kept: string[];
+  removed: string[];
+}
+
+// Pick the versions a policy allows removing. Versions are ordered newest first,
+// the first `keep` versions and any pinned version (latest, channels, split) are always kept.
+export function selectVersionsToPrune(
+  versions: string[],
+  pinned: Set<string>,
+  metadata: Map<string, WorkflowMetadata | null>,
+  policy: RetentionPolicy,
+  now: Date = new Date()
+): string[] {
+  const cutoff = policy.olderThan ? now.getTime() - parseDuration(policy.olderThan) : null;
+
+  return versions.slice(policy.keep).filter((version) => {
+    if (pinned.has(version)) {
+      return false;
+    }
+    if (cutoff === null) {
+      return true;
+    }
+    const deployedAt = metadata.get(version)?.deployedAt;
+    // Versions without metadata are incomplete and always eligible
+    return !deployedAt || new Date(deployedAt).getTime() < cutoff;
+  });
+}
+
+// Apply a retention policy to a workflow's versions
+export async function pruneWorkflow(
+  workflowName: string,
+  policy: RetentionPolicy,
+  dryRun = false
+): Promise<PruneResult> {
+  const versions = await listVersions(workflowName);
+  const latestVersion = await getLatestVersion(workflowName);
+
+  const metadata = new Map<string, WorkflowMetadata | null>();
+  if (policy.olderThan) {
+    for (const version of versions.slice(policy.keep)) {
+      metadata.set(version, await getMetadata(workflowName, version));
+    }
+  }
+
+  // Versions that latest, a channel or the traffic split still point at
+  const split = await getTrafficSplit(workflowName);
+  const pinned = new Set([...Object.values(await listChannels(workflowName)), ...Object.keys(split?.weights || {})]);
+  if (latestVersion) {
+    pinned.add(latestVersion);
+  }
+
+  const removed = selectVersionsToPrune(versions, pinned, metadata, policy);
+
+  if (!dryRun) {
+    for (const version of removed) {
+      await deleteVersion(workflowName, version);
+    }
+  }
+
+  return {
+    workflowName,
+    kept: versions.filter((version) => !removed.includes(version)),
+    removed,
+  };
+}
@@ -0,0 +1,162 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+
+// Accepted findings, one per line: a file, a file:line or a finding fingerprint
+export const SECRETS_ALLOW_FILE = ".secretsallow";
+
+export interface SecretFinding {
+  file: string;
+  // 1-based, 0 when the finding applies to the whole file
+  line: number;
+  rule: string;
+  // Redacted excerpt of the match
+  excerpt: string;
+  // Stable ID of the matched value, usable in the allow-list
+  fingerprint: string;
+}
+
+interface SecretPattern {
+  rule: string;
+  pattern: RegExp;
+}
+
+const SECRET_PATTERNS: SecretPattern[] = [
+  { rule: "private-key", pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/ },
+  { rule: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { rule: "github-token", pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { rule: "slack-token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/ },
+  { rule: "stripe-key", pattern: /\b[rs]k_live_[A-Za-z0-9]{16,}\b/ },
+  { rule: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { rule: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/ },
+  // Workflow API credentials as issued by `login`
+  { rule: "workflow-api-key", pattern: /\b(?:tk|sk)_[A-Za-z0-9]{16,}\b/ },
+  {
+    rule: "hardcoded-credential",
+    pattern: /\b(?:password|passwd|secret|token|api[_-]?key|access[_-]?key|client[_-]?secret)["']?\s*[:=]\s*["'`][^"'`\s]{8,}["'`]/i,
+  },
+];
+
+// Template values such as "your-secret-token" are not real credentials
+const PLACEHOLDER = /your[-_]|example|changeme|placeholder|<[^>]+>|x{6,}/i;
+
+// Quoted strings long and random enough to be a key rather than a word or identifier
+const ENTROPY_CANDIDATE = /["'`]([A-Za-z0-9+/=_\-.]{20,})["'`]/g;
+const ENTROPY_THRESHOLD = 4.3;
+
+// Lockfiles are full of integrity hashes, which are not secrets
+const ENTROPY_EXEMPT_FILES = new Set(["package-lock.json", "yarn.lock", "pnpm-lock.yaml"]);
+
+// Shannon entropy in bits per character
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function isEnvFile(file: string): boolean {
+  const name = path.posix.basename(file);
+  if (name === ".env.example" || name === ".env.sample" || name === ".env.template") {
+    return false;
+  }
+  return name === ".env" || name.startsWith(".env.") || name.endsWith(".env");
+}
+
+function fingerprint(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex").substring(0, 16);
+}
+
+function redact(value: string): string {
+  return value.length <= 8 ? "****" : `${value.substring(0, 4)}****${value.substring(value.length - 2)}`;
+}
+
+// Scan one file's content, returns unfiltered findings
+export function scanContent(file: string, content: string): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const lines = content.split(/\r?\n/);
+  const checkEntropy = !ENTROPY_EXEMPT_FILES.has(path.posix.basename(file));
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    let matchedPattern = false;
+
+    for (const { rule, pattern } of SECRET_PATTERNS) {
+      const match = text.match(pattern);
+      if (match && !PLACEHOLDER.test(match[0])) {
+        matchedPattern = true;
+        findings.push({ file, line, rule, excerpt: redact(match[0]), fingerprint: fingerprint(match[0]) });
+      }
+    }
+
+    // A line already reported by a pattern is not reported again for entropy
+    if (!checkEntropy || matchedPattern) {
+      return;
+    }
+
+    for (const match of text.matchAll(ENTROPY_CANDIDATE)) {
+      const value = match[1];
+      if (shannonEntropy(value) >= ENTROPY_THRESHOLD) {
+        findings.push({ file, line, rule: "high-entropy-string", excerpt: redact(value), fingerprint: fingerprint(value) });
+      }
+    }
+  });
+
+  return findings;
+}
+
+// Load the allow-list of accepted findings from the workflow directory
+export function loadSecretsAllowList(workflowDir: string): Set<string> {
+  const allowFile = path.join(workflowDir, SECRETS_ALLOW_FILE);
+
+  if (!fs.existsSync(allowFile)) {
+    return new Set();
+  }
+
+  return new Set(
+    fs
+      .readFileSync(allowFile, "utf-8")
+      .split(/\r?\n/)
+      .map((entry) => entry.trim())
+      .filter((entry) => entry && !entry.startsWith("#"))
+  );
+}
+
+function isAllowed(finding: SecretFinding, allowList: Set<string>): boolean {
+  return (
+    allowList.has(finding.file) ||
+    allowList.has(`${finding.file}:${finding.line}`) ||
+    allowList.has(finding.fingerprint)
+  );
+}
+
+// Scan the files that are about to be bundled, returns findings not on the allow-list
+export function scanForSecrets(workflowDir: string, files: string[]): SecretFinding[] {
+  const allowList = loadSecretsAllowList(workflowDir);
+  const findings: SecretFinding[] = [];
+
+  for (const file of files) {
+    if (isEnvFile(file)) {
+      findings.push({ file, line: 0, rule: "env-file", excerpt: file, fingerprint: fingerprint(`env-file:${file}`) });
+      continue;
+    }
+
+    const content = fs.readFileSync(path.join(workflowDir, file));
+
+    // Skip binary files
+    if (content.subarray(0, 8000).includes(0)) {
+      continue;
+    }
+
+    findings.push(...scanContent(file, content.toString("utf-8")));
+  }
+
+  return findings.filter((finding) => !isAllowed(finding, allowList));
+}
@@ -0,0 +1,147 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { getSigningConfig } from "../config";
+import { BundleSignature, WorkflowMetadata } from "../types";
+import { calculateBufferChecksum } from "./packager";
+
+export type SignatureStatus = "valid" | "invalid" | "untrusted" | "unsigned";
+
+export interface SignatureCheck {
+  status: SignatureStatus;
+  keyId?: string;
+  message: string;
+}
+
+// The signed payload binds the bundle digest to the workflow name and version,
+// so a signed bundle cannot be replayed under another name or version
+function signingPayload(metadata: Pick<WorkflowMetadata, "name" | "version" | "checksum">): Buffer {
+  return Buffer.from(`workflow-cli-bundle:v1\n${metadata.name}\n${metadata.version}\n${metadata.checksum}`);
+}
+
+// Load the trusted public keys (key ID -> PEM)
+export function loadTrustedKeys(): Record<string, string> {
+  const { trustedKeysPath } = getSigningConfig();
+
+  if (!fs.existsSync(trustedKeysPath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(trustedKeysPath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Invalid trusted keys file ${trustedKeysPath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Add or replace a trusted public key
+export function trustKey(keyId: string, publicKeyPem: string): void {
+  // Fail early on anything that is not an Ed25519 public key
+  const key = crypto.createPublicKey(publicKeyPem);
+  if (key.asymmetricKeyType !== "ed25519") {
+    throw new Error(`Key ${keyId} is ${key.asymmetricKeyType}, expected ed25519`);
+  }
+
+  const { trustedKeysPath } = getSigningConfig();
+  const keys = loadTrustedKeys();
+  keys[keyId] = key.export({ type: "spki", format: "pem" }).toString();
+
+  fs.mkdirSync(path.dirname(trustedKeysPath), { recursive: true });
+  fs.writeFileSync(trustedKeysPath, JSON.stringify(keys, null, 2));
+}
+
+// Generate a new Ed25519 key pair, returns the PEM encoded keys
+export function generateSigningKey(): { privateKey: string; publicKey: string } {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519");
+  return {
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+// Sign a version with the configured key, returns null when signing is not configured
+export function signBundle(metadata: WorkflowMetadata): BundleSignature | null {
+  const { keyId, privateKeyPath } = getSigningConfig();
+
+  if (!keyId || !privateKeyPath) {
+    return null;
+  }
+
+  if (!fs.existsSync(privateKeyPath)) {
+    throw new Error(`Signing key not found: ${privateKeyPath}`);
+  }
+
+  const privateKey = crypto.createPrivateKey(fs.readFileSync(privateKeyPath));
+  const signature = crypto.sign(null, signingPayload(metadata), privateKey);
+
+  return {
+    algorithm: "ed25519",
+    keyId,
+    signature: signature.toString("base64"),
+    signedAt: new Date().toISOString(),
+  };
+}
+
+// Check a version's signature against the trusted keys. The signed name and version
+// must be the workflow and version it was read as, and the bundle as stored must
+// match the signed checksum. A valid signature over other metadata or another
+// bundle is rejected.
+export function verifyBundleSignature(
+  metadata: WorkflowMetadata,
+  signature: BundleSignature | null,
+  expected: { name: string; version: string; bundle: Buffer | null },
+  trustedKeys: Record<string, string> = loadTrustedKeys()
+): SignatureCheck {
+  if (!signature) {
+    return { status: "unsigned", message: "Not signed" };
+  }
+
+  if (!expected.bundle || calculateBufferChecksum(expected.bundle) !== metadata.checksum) {
+    return {
+      status: "invalid",
+      keyId: signature.keyId,
+      message: expected.bundle ? "Bundle does not match the signed checksum" : "Bundle is missing",
+    };
+  }
+
+  if (metadata.name !== expected.name || metadata.version !== expected.version) {
+    return {
+      status: "invalid",
+      keyId: signature.keyId,
+      message: `Signed for ${metadata.name}@${metadata.version}, not ${expected.name}@${expected.version}`,
+    };
+  }
+
+  const publicKey = trustedKeys[signature.keyId];
+  if (!publicKey) {
+    return { status: "untrusted", keyId: signature.keyId, message: `Signed by untrusted key ${signature.keyId}` };
+  }
+
+  let valid = false;
+  try {
+    valid = crypto.verify(
+      null,
+      signingPayload(metadata),
+      crypto.createPublicKey(publicKey),
+      Buffer.from(signature.signature, "base64")
+    );
+  } catch {
+    valid = false;
+  }
+
+  return valid
+    ? { status: "valid", keyId: signature.keyId, message: `Valid signature by ${signature.keyId}` }
+    : { status: "invalid", keyId: signature.keyId, message: `Signature by ${signature.keyId} does not verify` };
+}
+
+// Whether a signature check passes the configured policy. Invalid signatures are
+// always rejected, missing or untrusted ones only when signatures are required.
+export function isSignatureAccepted(check: SignatureCheck): boolean {
+  if (check.status === "valid") {
+    return true;
+  }
+  if (check.status === "invalid") {
+    return false;
+  }
+  return !getSigningConfig().requireSignatures;
+}
@@ -0,0 +1,31 @@
+import { getConfig, getStorageConfig } from "../../config";
+import { CLIConfig, StorageConfig, StorageDriver } from "../../types";
+import { createMinioDriver } from "./minio";
+import { createLocalDriver } from "./local";
+
+let storage: StorageDriver | null = null;
+
+// Build a driver for the given storage settings, MinIO settings default to the CLI config
+export function createStorageDriver(config: StorageConfig, minio?: CLIConfig["minio"]): StorageDriver {
+  switch (config.driver) {
+    case "local":
+      return createLocalDriver(config.path);
+    case "minio":
+      return createMinioDriver(minio || getConfig().minio);
+  }
+}
+
+// Get the driver selected in ~/.workflow-cli/config.json
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    storage = createStorageDriver(getStorageConfig());
+  }
+  return storage;
+}
+
+// Switch the driver used by the workflow services (e.g. to copy between environments)
+export function useStorage(driver: StorageDriver): void {
+  storage = driver;
+}
+
+export { createMinioDriver, createLocalDriver };
@@ -0,0 +1,224 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { StorageDriver, StorageEntry } from "../../types";
+
+// Storage driver that keeps objects as plain files under a root directory.
+// Keys map to relative paths, so "<name>/<version>/bundle.zip" lands in
+// "<root>/<name>/<version>/bundle.zip".
+export function createLocalDriver(rootDir: string): StorageDriver {
+  const root = path.resolve(rootDir);
+
+  function keyToPath(key: string): string {
+    const filePath = path.resolve(root, ...key.split("/").filter(Boolean));
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  function pathToKey(filePath: string): string {
+    return path.relative(root, filePath).split(path.sep).join("/");
+  }
+
+  function walk(dir: string, entries: StorageEntry[]): void {
+    for (const dirent of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) {
+        walk(fullPath, entries);
+      } else if (dirent.isFile() && !dirent.name.endsWith(".tmp")) {
+        const stats = fs.statSync(fullPath);
+        entries.push({ name: pathToKey(fullPath), size: stats.size, lastModified: stats.mtime });
+      }
+    }
+  }
+
+  // Remove empty folders left behind by deletes, like an object store would
+  function pruneEmptyDirs(dir: string): void {
+    let current = dir;
+    while (current !== root && current.startsWith(root) && fs.existsSync(current)) {
+      if (fs.readdirSync(current).length > 0) {
+        break;
+      }
+      fs.rmdirSync(current);
+      current = path.dirname(current);
+    }
+  }
+
+  // Write then rename so readers never see a partially written object, and a crash
+  // never leaves a truncated one
+  function writeAtomic(filePath: string, write: (tempPath: string) => void): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      write(tempPath);
+      fs.renameSync(tempPath, filePath);
+    } finally {
+      fs.rmSync(tempPath, { force: true });
+    }
+  }
+
+  // Content hash, like the ETag of a single-part S3 upload
+  function etagOf(data: Buffer): string {
+    return crypto.createHash("md5").update(data).digest("hex");
+  }
+
+  // Run a check-and-write on a file while holding an exclusive guard file, so
+  // conditional writes from several processes cannot interleave
+  async function withGuard<T>(filePath: string, fn: () => T): Promise<T> {
+    const guardPath = `${filePath}.guard.tmp`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        fs.closeSync(fs.openSync(guardPath, "wx"));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+        // A guard is only held for a moment, an old one was left by a crashed process
+        const stats = fs.statSync(guardPath, { throwIfNoEntry: false });
+        if (stats && Date.now() - stats.mtimeMs > 10_000) {
+          fs.rmSync(guardPath, { force: true });
+        } else if (attempt >= 200) {
+          throw new Error(`Timed out waiting for ${guardPath}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 25));
+      }
+    }
+
+    try {
+      return fn();
+    } finally {
+      fs.rmSync(guardPath, { force: true });
+    }
+  }
+
+  return {
+    driver: "local",
+    location: `file://${root}`,
+
+    async ensureBucket() {
+      if (!fs.existsSync(root)) {
+        fs.mkdirSync(root, { recursive: true });
+        return true;
+      }
+      return false;
+    },
+
+    async putObject(key, data) {
+      writeAtomic(keyToPath(key), (tempPath) => fs.writeFileSync(tempPath, data));
+    },
+
+    async putFile(key, filePath) {
+      writeAtomic(keyToPath(key), (tempPath) => fs.copyFileSync(filePath, tempPath));
+    },
+
+    async getObject(key) {
+      const filePath = keyToPath(key);
+      if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        return null;
+      }
+      return fs.readFileSync(filePath);
+    },
+
+    async createObject(key, data) {
+      const filePath = keyToPath(key);
+      return withGuard(filePath, () => {
+        if (fs.existsSync(filePath)) {
+          return null;
+        }
+        writeAtomic(filePath, (tempPath) => fs.writeFileSync(tempPath, data));
+        return etagOf(data);
+      });
+    },
+
+    async getObjectWithEtag(key) {
+      const filePath = keyToPath(key);
+      return withGuard(filePath, () => {
+        if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+          return null;
+        }
+        const data = fs.readFileSync(filePath);
+        return { data, etag: etagOf(data) };
+      });
+    },
+
+    async replaceObject(key, data, _contentType, etag) {
+      const filePath = keyToPath(key);
+      return withGuard(filePath, () => {
+        if (!fs.existsSync(filePath) || etagOf(fs.readFileSync(filePath)) !== etag) {
+          return null;
+        }
+        writeAtomic(filePath, (tempPath) => fs.writeFileSync(tempPath, data));
+        return etagOf(data);
+      });
+    },
+
+    async removeObjectIfMatch(key, etag) {
+      const filePath = keyToPath(key);
+      const removed = await withGuard(filePath, () => {
+        if (!fs.existsSync(filePath) || etagOf(fs.readFileSync(filePath)) !== etag) {
+          return false;
+        }
+        fs.unlinkSync(filePath);
+        return true;
+      });
+      if (removed) {
+        pruneEmptyDirs(path.dirname(filePath));
+      }
+      return removed;
+    },
+
+    async copyObject(sourceKey, targetKey) {
+      const sourcePath = keyToPath(sourceKey);
+      if (!fs.existsSync(sourcePath)) {
+        throw new Error(`Object not found: ${sourceKey}`);
+      }
+      writeAtomic(keyToPath(targetKey), (tempPath) => fs.copyFileSync(sourcePath, tempPath));
+    },
+
+    async listObjects(prefix, recursive) {
+      // Split "a/b/c" into the folder "a/b" and the name filter "c"
+      const slash = prefix.lastIndexOf("/");
+      const dirKey = prefix.substring(0, slash + 1);
+      const namePrefix = prefix.substring(slash + 1);
+      const dir = keyToPath(dirKey);
+
+      if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+        return [];
+      }
+
+      const entries: StorageEntry[] = [];
+      const dirents = fs
+        .readdirSync(dir, { withFileTypes: true })
+        .filter((dirent) => dirent.name.startsWith(namePrefix))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const dirent of dirents) {
+        const fullPath = path.join(dir, dirent.name);
+        if (dirent.isDirectory()) {
+          if (recursive) {
+            walk(fullPath, entries);
+          } else {
+            entries.push({ prefix: `${dirKey}${dirent.name}/` });
+          }
+        } else if (dirent.isFile() && !dirent.name.endsWith(".tmp")) {
+          const stats = fs.statSync(fullPath);
+          entries.push({ name: `${dirKey}${dirent.name}`, size: stats.size, lastModified: stats.mtime });
+        }
+      }
+
+      return entries;
+    },
+
+    async removeObject(key) {
+      const filePath = keyToPath(key);
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+        pruneEmptyDirs(path.dirname(filePath));
+      }
+    },
+  };
+}
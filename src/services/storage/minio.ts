@@ -0,0 +1,157 @@
+import * as Minio from "minio";
+import { Readable } from "stream";
+import { CLIConfig, StorageDriver, StorageEntry } from "../../types";
+
+// Errors MinIO raises for keys that do not exist
+const NOT_FOUND_CODES = ["NoSuchKey", "NotFound"];
+
+// Error MinIO raises when a conditional write finds the object already there
+const PRECONDITION_FAILED = "PreconditionFailed";
+
+function readStream(stream: Readable): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
+
+// Storage driver backed by a MinIO (or any S3 compatible) bucket
+export function createMinioDriver(config: CLIConfig["minio"]): StorageDriver {
+  const client = new Minio.Client({
+    endPoint: config.endPoint,
+    port: config.port,
+    useSSL: config.useSSL,
+    accessKey: config.accessKey,
+    secretKey: config.secretKey,
+  });
+  const bucket = config.bucket;
+
+  return {
+    driver: "minio",
+    location: `minio://${bucket}`,
+
+    async ensureBucket() {
+      const exists = await client.bucketExists(bucket);
+      if (!exists) {
+        await client.makeBucket(bucket);
+        return true;
+      }
+      return false;
+    },
+
+    async putObject(key, data, contentType) {
+      await client.putObject(bucket, key, data, data.length, {
+        "Content-Type": contentType,
+      });
+    },
+
+    async putFile(key, filePath, contentType) {
+      await client.fPutObject(bucket, key, filePath, {
+        "Content-Type": contentType,
+      });
+    },
+
+    async getObject(key) {
+      try {
+        const stream = await client.getObject(bucket, key);
+        return await readStream(stream);
+      } catch (error) {
+        if (NOT_FOUND_CODES.includes((error as { code?: string }).code || "")) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async createObject(key, data, contentType) {
+      try {
+        const { etag } = await client.putObject(bucket, key, data, data.length, {
+          "Content-Type": contentType,
+          "If-None-Match": "*",
+        });
+        return etag;
+      } catch (error) {
+        if ((error as { code?: string }).code === PRECONDITION_FAILED) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async getObjectWithEtag(key) {
+      try {
+        // Stat before reading: if the object changes in between, the ETag is older than the
+        // data and a conditional write based on it fails instead of losing the change
+        const { etag } = await client.statObject(bucket, key);
+        const data = await readStream(await client.getObject(bucket, key));
+        return { data, etag: etag.replace(/"/g, "") };
+      } catch (error) {
+        if (NOT_FOUND_CODES.includes((error as { code?: string }).code || "")) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async replaceObject(key, data, contentType, etag) {
+      try {
+        const result = await client.putObject(bucket, key, data, data.length, {
+          "Content-Type": contentType,
+          "If-Match": `"${etag}"`,
+        });
+        return result.etag;
+      } catch (error) {
+        const code = (error as { code?: string }).code || "";
+        if (code === PRECONDITION_FAILED || NOT_FOUND_CODES.includes(code)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async removeObjectIfMatch(key, etag) {
+      try {
+        // removeObject takes no conditions, so send the DELETE with If-Match directly
+        await client.makeRequestAsyncOmit(
+          { method: "DELETE", bucketName: bucket, objectName: key, headers: { "If-Match": `"${etag}"` } },
+          "",
+          [200, 204]
+        );
+        return true;
+      } catch (error) {
+        const code = (error as { code?: string }).code || "";
+        if (code === PRECONDITION_FAILED || NOT_FOUND_CODES.includes(code)) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    async copyObject(sourceKey, targetKey) {
+      await client.copyObject(bucket, targetKey, `/${bucket}/${sourceKey}`, new Minio.CopyConditions());
+    },
+
+    async listObjects(prefix, recursive) {
+      const entries: StorageEntry[] = [];
+      const stream = client.listObjects(bucket, prefix, recursive);
+
+      return new Promise((resolve, reject) => {
+        stream.on("data", (obj) => {
+          if (obj.prefix) {
+            entries.push({ prefix: obj.prefix });
+          } else if (obj.name) {
+            entries.push({ name: obj.name, size: obj.size, lastModified: obj.lastModified });
+          }
+        });
+        stream.on("error", reject);
+        stream.on("end", () => resolve(entries));
+      });
+    },
+
+    async removeObject(key) {
+      await client.removeObject(bucket, key);
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import * as semver from "semver";
+import { BumpLevel } from "../types";
+
+export const BUMP_LEVELS: BumpLevel[] = ["patch", "minor", "major"];
+
+// Versions generated by deploy when none is given, e.g. 20241210-143052
+const GENERATED_VERSION = /^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})$/;
+
+// Whether a version is a semantic version, with or without a leading "v"
+export function isSemver(version: string): boolean {
+  return semver.valid(version) !== null;
+}
+
+// Timestamp encoded in a generated version name, or null
+export function parseGeneratedVersion(version: string): number | null {
+  const match = version.match(GENERATED_VERSION);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+}
+
+// Compare two versions by deploy time, negative when a is older than b. The time comes
+// from `deployedAt` (epoch ms by version) or the timestamp in a generated version name,
+// versions without either count as oldest. Ties fall back to a natural string comparison.
+function compareDeployTimes(a: string, b: string, deployedAt: Map<string, number>): number {
+  const timeA = deployedAt.get(a) ?? parseGeneratedVersion(a) ?? -Infinity;
+  const timeB = deployedAt.get(b) ?? parseGeneratedVersion(b) ?? -Infinity;
+
+  if (timeA !== timeB) {
+    return timeA < timeB ? -1 : 1;
+  }
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function compareSemver(a: string, b: string): number {
+  return semver.compare(a, b) || a.localeCompare(b, undefined, { numeric: true });
+}
+
+// Sort versions newest first. When every version is a semantic version they are
+// ordered by precedence. Any other name, or a mix of naming schemes, is ordered by
+// deploy time: precedence says nothing about when a timestamp version was deployed
+// relative to a semantic one. Either way one key orders the whole list.
+export function sortVersions(versions: string[], deployedAt: Map<string, number> = new Map()): string[] {
+  const compare = versions.every(isSemver) ? compareSemver : (a: string, b: string) => compareDeployTimes(a, b, deployedAt);
+  return [...versions].sort((a, b) => compare(b, a));
+}
+
+// Versions whose position can only be determined from their deploy timestamp
+export function versionsNeedingTimestamps(versions: string[]): string[] {
+  if (versions.every(isSemver)) {
+    return [];
+  }
+  return versions.filter((version) => parseGeneratedVersion(version) === null);
+}
+
+// Next version for a bump, based on the highest semantic version deployed so far.
+// Starts from 0.0.0 when there is none. A leading "v" is kept.
+export function bumpVersion(versions: string[], level: BumpLevel): string {
+  const current = versions.filter(isSemver).sort(semver.rcompare)[0];
+
+  if (!current) {
+    return semver.inc("0.0.0", level)!;
+  }
+
+  const next = semver.inc(current, level)!;
+  return current.startsWith("v") ? `v${next}` : next;
+}
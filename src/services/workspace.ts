@@ -0,0 +1,83 @@
+import * as fs from "fs";
+import * as path from "path";
+import { WorkspaceManifestSchema } from "../types";
+import { validateWorkflowDir } from "./packager";
+
+// Manifest listing the workflow folders of a repository, relative to the manifest
+export const WORKSPACE_MANIFEST = "workflows.json";
+
+// Folders never searched for workflows
+const SKIPPED_DIRS = new Set(["node_modules", "dist", "build", "coverage"]);
+
+function isWorkflowDir(dir: string): boolean {
+  try {
+    validateWorkflowDir(dir);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Find every folder under root that passes validateWorkflowDir. Workflow folders
+// are not searched further, hidden folders and build output are skipped.
+export function discoverWorkflowDirs(root: string): string[] {
+  if (isWorkflowDir(root)) {
+    return [root];
+  }
+
+  const dirs: string[] = [];
+  const entries = fs.readdirSync(root, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith(".") || SKIPPED_DIRS.has(entry.name)) {
+      continue;
+    }
+    dirs.push(...discoverWorkflowDirs(path.join(root, entry.name)));
+  }
+
+  return dirs;
+}
+
+// Read a workflows.json manifest, returns the absolute workflow folders it lists
+export function loadWorkspaceManifest(manifestPath: string): string[] {
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Cannot read ${manifestPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = WorkspaceManifestSchema.safeParse(content);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  - ${issue.path.join(".") || "manifest"}: ${issue.message}`);
+    throw new Error(`Invalid workspace manifest in ${path.basename(manifestPath)}:\n${issues.join("\n")}`);
+  }
+
+  const root = path.dirname(manifestPath);
+  return result.data.workflows.map((dir) => {
+    const absolute = path.resolve(root, dir);
+    validateWorkflowDir(absolute);
+    return absolute;
+  });
+}
+
+// Workflow folders to deploy for a path given to `deploy --all`: a manifest file,
+// a folder containing workflows.json, or a folder to search
+export function resolveWorkspace(workspacePath: string): { dirs: string[]; manifest?: string } {
+  const absolute = path.resolve(workspacePath);
+
+  if (!fs.existsSync(absolute)) {
+    throw new Error(`Not found: ${absolute}`);
+  }
+
+  if (fs.statSync(absolute).isFile()) {
+    return { dirs: loadWorkspaceManifest(absolute), manifest: absolute };
+  }
+
+  const manifest = path.join(absolute, WORKSPACE_MANIFEST);
+  if (fs.existsSync(manifest)) {
+    return { dirs: loadWorkspaceManifest(manifest), manifest };
+  }
+
+  return { dirs: discoverWorkflowDirs(absolute) };
+}
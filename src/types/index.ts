@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { validateCronExpression } from "../lib/cron";
 
 // Webhook authentication configuration
 export const WebhookAuthConfigSchema = z.object({
@@ -14,27 +15,138 @@ export const WebhookAuthConfigSchema = z.object({
 export type WebhookAuthConfig = z.infer<typeof WebhookAuthConfigSchema>;
 
 // Webhook trigger configuration with optional auth
-export const WebhookTriggerConfigSchema = z.object({
-  path: z.string().min(1),
-  method: z.enum(["GET", "POST", "PUT", "DELETE"]).default("POST"),
-  auth: WebhookAuthConfigSchema.optional(),
-});
+export const WebhookTriggerConfigSchema = z
+  .object({
+    // URL path, e.g. "/orders" or "/orders/:id"
+    path: z
+      .string()
+      .regex(/^\/([A-Za-z0-9\-._~:{}]+(\/[A-Za-z0-9\-._~:{}]+)*\/?)?$/, "Path must start with / and contain only URL-safe segments"),
+    method: z.enum(["GET", "POST", "PUT", "DELETE"]).default("POST"),
+    auth: WebhookAuthConfigSchema.optional(),
+  })
+  .strict();
 
 export type WebhookTriggerConfig = z.infer<typeof WebhookTriggerConfigSchema>;
 
+// Schedule trigger configuration, exactly one of cronExpression or intervalMs
+export const ScheduleTriggerConfigSchema = z
+  .object({
+    cronExpression: z
+      .string()
+      .superRefine((expression, ctx) => {
+        const problem = validateCronExpression(expression);
+        if (problem) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid cron expression: ${problem}` });
+        }
+      })
+      .optional(),
+    intervalMs: z.number().int().positive().optional(),
+  })
+  .strict()
+  .refine((config) => (config.cronExpression === undefined) !== (config.intervalMs === undefined), {
+    message: "Set either cronExpression or intervalMs",
+  });
+
+export type ScheduleTriggerConfig = z.infer<typeof ScheduleTriggerConfigSchema>;
+
+// Polling trigger configuration
+export const PollingTriggerConfigSchema = z
+  .object({
+    intervalMs: z.number().int().positive(),
+    // Optional endpoint to poll for data
+    endpoint: z.string().url().optional(),
+    // Optional headers for the polling request
+    headers: z.record(z.string()).optional(),
+  })
+  .strict();
+
+export type PollingTriggerConfig = z.infer<typeof PollingTriggerConfigSchema>;
+
+// Manual triggers have no configuration
+export const ManualTriggerConfigSchema = z.object({}).strict();
+
+export type ManualTriggerConfig = z.infer<typeof ManualTriggerConfigSchema>;
+
+// Trigger configuration, validated according to the trigger type
+export const TriggerSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("webhook"), config: WebhookTriggerConfigSchema }),
+  z.object({ type: z.literal("schedule"), config: ScheduleTriggerConfigSchema }),
+  z.object({ type: z.literal("polling"), config: PollingTriggerConfigSchema }),
+  z.object({ type: z.literal("manual"), config: ManualTriggerConfigSchema.optional() }),
+]);
+
+export type Trigger = z.infer<typeof TriggerSchema>;
+
+// Retention policy for deployed versions
+export const RetentionPolicySchema = z.object({
+  // Number of most recent versions to always keep
+  keep: z.number().int().min(1),
+  // Only remove versions older than this duration (e.g. "30d", "12h", "2w")
+  olderThan: z
+    .string()
+    .regex(/^\d+[mhdw]$/, "Duration must be a number followed by m, h, d or w")
+    .optional(),
+});
+
+export type RetentionPolicy = z.infer<typeof RetentionPolicySchema>;
+
 // Workflow configuration schema that must exist in each workflow folder
 export const WorkflowConfigSchema = z.object({
   name: z.string().min(1),
   namespace: z.string().default("default"),
   taskQueue: z.string().min(1),
-  trigger: z.object({
-    type: z.enum(["schedule", "polling", "webhook", "manual"]),
-    config: z.record(z.unknown()).optional(),
-  }),
+  trigger: TriggerSchema,
+  // Applied automatically after each successful deploy
+  retention: RetentionPolicySchema.optional(),
+  // Reject deploys whose version is not a semantic version
+  requireSemver: z.boolean().optional(),
+  // gitignore-style patterns; when set, only matching files are bundled
+  include: z.array(z.string().min(1)).optional(),
 });
 
 export type WorkflowConfig = z.infer<typeof WorkflowConfigSchema>;
 
+// workflows.json, lists the workflow folders deployed by `deploy --all`
+export const WorkspaceManifestSchema = z.object({
+  // Folders relative to the manifest
+  workflows: z.array(z.string().min(1)).min(1),
+});
+
+export type WorkspaceManifest = z.infer<typeof WorkspaceManifestSchema>;
+
+// Compiled workflow code produced by Temporal's workflow bundler
+export const WorkflowBuildSchema = z.object({
+  // Path of the artifact inside bundle.zip
+  artifact: z.string(),
+  checksum: z.string(),
+  size: z.number(),
+  // Package and version of the bundler that produced the artifact
+  bundler: z.string(),
+  builtAt: z.string(),
+});
+
+export type WorkflowBuild = z.infer<typeof WorkflowBuildSchema>;
+
+// Where and from what source a version was deployed
+export const WorkflowProvenanceSchema = z.object({
+  // Absent when the workflow was not deployed from a git checkout
+  git: z
+    .object({
+      commit: z.string(),
+      branch: z.string().nullable(),
+      // Remote URL with any credentials removed
+      remote: z.string().nullable(),
+      dirty: z.boolean(),
+    })
+    .optional(),
+  cliVersion: z.string(),
+  hostname: z.string(),
+  // Release note given with `deploy --message`
+  message: z.string().optional(),
+});
+
+export type WorkflowProvenance = z.infer<typeof WorkflowProvenanceSchema>;
+
 // Metadata stored alongside the workflow in MinIO
 export const WorkflowMetadataSchema = z.object({
   name: z.string(),
@@ -48,10 +160,126 @@ export const WorkflowMetadataSchema = z.object({
   deployedAt: z.string(),
   deployedBy: z.string().optional(),
   checksum: z.string(),
+  // Checksum of the bundled source files, used to detect unchanged workflows
+  sourceChecksum: z.string().optional(),
+  // Set when the version was copied from another environment by `promote`
+  promotedFrom: z
+    .object({
+      environment: z.string(),
+      promotedAt: z.string(),
+      promotedBy: z.string(),
+    })
+    .optional(),
+  // Set when the compiled workflow code is included in the bundle
+  build: WorkflowBuildSchema.optional(),
+  // Source and machine the version was deployed from
+  provenance: WorkflowProvenanceSchema.optional(),
 });
 
 export type WorkflowMetadata = z.infer<typeof WorkflowMetadataSchema>;
 
+// Signature stored next to metadata.json as signature.json
+export interface BundleSignature {
+  algorithm: "ed25519";
+  keyId: string;
+  // Base64 signature over the payload built by the signing service
+  signature: string;
+  signedAt: string;
+}
+
+// Local signing key and trust settings from ~/.workflow-cli/config.json
+export interface SigningConfig {
+  keyId?: string;
+  privateKeyPath?: string;
+  // JSON file mapping key IDs to PEM encoded public keys
+  trustedKeysPath: string;
+  // Refuse to pull or run versions without a trusted signature
+  requireSignatures: boolean;
+}
+
+// One workflow's entry in the deployment index
+export interface DeploymentIndexEntry {
+  latest: string | null;
+  versions: string[];
+  // Metadata of the latest version
+  metadata: WorkflowMetadata | null;
+  // Named channel pointers (channel -> version), absent in indexes built before channels
+  channels?: Record<string, string>;
+}
+
+// Weighted traffic split between versions, stored next to the latest pointer as split.json
+export interface TrafficSplit {
+  // Version -> percentage of new executions, summing to 100
+  weights: Record<string, number>;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Lease held by a deploy, rollback or delete while it changes a workflow's pointers
+export interface WorkflowLock {
+  workflowName: string;
+  // Random ID of the holder, so a lock taken over by someone else is never released by mistake
+  token: string;
+  owner: string;
+  hostname: string;
+  pid: number;
+  operation: string;
+  acquiredAt: string;
+  heartbeatAt: string;
+  // The lock is stale after this time and may be taken over
+  expiresAt: string;
+}
+
+// Summary of every workflow under a tenant, kept in sync by the storage services
+export interface DeploymentIndex {
+  updatedAt: string;
+  workflows: Record<string, DeploymentIndexEntry>;
+}
+
+// Storage backend used to hold workflow bundles
+export type StorageDriverName = "minio" | "local";
+
+export interface StorageConfig {
+  driver: StorageDriverName;
+  // Root directory for the local driver
+  path: string;
+}
+
+// A single entry returned when listing a storage prefix
+export interface StorageEntry {
+  // Full object key (set for objects)
+  name?: string;
+  // Common prefix ending with "/" (set for folders in non-recursive listings)
+  prefix?: string;
+  size?: number;
+  lastModified?: Date;
+}
+
+// Object-level operations every storage backend must provide
+export interface StorageDriver {
+  readonly driver: StorageDriverName;
+  // Human readable location, e.g. "minio://temporal-workflows"
+  readonly location: string;
+  // Create the bucket/root if needed, returns true when it was created
+  ensureBucket(): Promise<boolean>;
+  putObject(key: string, data: Buffer, contentType: string): Promise<void>;
+  putFile(key: string, filePath: string, contentType: string): Promise<void>;
+  // Returns null when the object does not exist
+  getObject(key: string): Promise<Buffer | null>;
+  // Conditional operations for objects that several processes update, like locks.
+  // Write only when the key does not exist yet, returns the new ETag or null when it exists
+  createObject(key: string, data: Buffer, contentType: string): Promise<string | null>;
+  // Returns the object with its ETag, or null when it does not exist
+  getObjectWithEtag(key: string): Promise<{ data: Buffer; etag: string } | null>;
+  // Overwrite only when the ETag still matches, returns the new ETag or null when it changed
+  replaceObject(key: string, data: Buffer, contentType: string, etag: string): Promise<string | null>;
+  // Remove only when the ETag still matches, returns false when it changed
+  removeObjectIfMatch(key: string, etag: string): Promise<boolean>;
+  copyObject(sourceKey: string, targetKey: string): Promise<void>;
+  listObjects(prefix: string, recursive: boolean): Promise<StorageEntry[]>;
+  removeObject(key: string): Promise<void>;
+}
+
 // CLI configuration
 export interface CLIConfig {
   minio: {
@@ -64,11 +292,23 @@ export interface CLIConfig {
   };
 }
 
+// Semantic version component incremented by `deploy --bump`
+export type BumpLevel = "patch" | "minor" | "major";
+
 // Deploy options
 export interface DeployOptions {
   version?: string;
   force?: boolean;
   tenant?: string; // For master admin to deploy to specific tenant
+  listFiles?: boolean; // Print the files that would be bundled and exit
+  skipBuild?: boolean; // Bundle the sources without type-checking and compiling
+  skipLint?: boolean; // Deploy even if the determinism linter reports issues
+  bump?: BumpLevel; // Derive the version by bumping the highest semantic version
+  channel?: string; // Point this channel at the new version instead of latest
+  message?: string; // Release note stored in the version's provenance
+  requireClean?: boolean; // Refuse to deploy from a git tree with uncommitted changes
+  all?: boolean; // Deploy every workflow found under the path, or listed in its workflows.json
+  concurrency?: string; // Workflows deployed at the same time with --all
 }
 
 // List options